@@ -0,0 +1,49 @@
+import * as vscode from 'vscode';
+
+/**
+ * Icons filled with a project color. Quick Pick and tree view icons cannot be colored with
+ * arbitrary colors, so a small SVG per color is written to the extension's storage.
+ */
+export class ColorIcons {
+    private iconsFolder: vscode.Uri;
+    private writtenIcons = new Map<string, Promise<vscode.Uri>>();
+
+    constructor(context: vscode.ExtensionContext) {
+        this.iconsFolder = vscode.Uri.joinPath(context.globalStorageUri, 'colors');
+    }
+
+    /**
+     * Get the icon of a color, or the fallback icon when the color is missing or not a plain CSS color
+     */
+    public async getIcon(color: string | undefined, fallback: vscode.ThemeIcon = new vscode.ThemeIcon('folder')): Promise<vscode.Uri | vscode.ThemeIcon> {
+        const cssColor = color?.trim().toLowerCase();
+        if (!cssColor || !/^(#[0-9a-f]{3,8}|(rgb|hsl)a?\([\d\s.,%]+\))$/.test(cssColor)) {
+            return fallback;
+        }
+
+        if (!this.writtenIcons.has(cssColor)) {
+            this.writtenIcons.set(cssColor, this.writeIcon(cssColor));
+        }
+        try {
+            return await this.writtenIcons.get(cssColor)!;
+        } catch (error) {
+            this.writtenIcons.delete(cssColor);
+            console.error(`Error writing the icon for ${cssColor}:`, error);
+            return fallback;
+        }
+    }
+
+    /**
+     * Write the icon file of a color unless it exists from an earlier session
+     */
+    private async writeIcon(cssColor: string): Promise<vscode.Uri> {
+        const iconUri = vscode.Uri.joinPath(this.iconsFolder, `${cssColor.replace(/[^0-9a-z]/g, '_')}.svg`);
+        try {
+            await vscode.workspace.fs.stat(iconUri);
+        } catch {
+            const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16"><circle cx="8" cy="8" r="6" fill="${cssColor}"/></svg>`;
+            await vscode.workspace.fs.writeFile(iconUri, Buffer.from(svg, 'utf8'));
+        }
+        return iconUri;
+    }
+}
@@ -0,0 +1,131 @@
+import { isDeepStrictEqual } from 'util';
+import { ProjectConfig } from './configManager';
+
+/**
+ * Keys of the entries of one part of the config that were added, removed or changed
+ */
+export interface ChangeList {
+    added: string[];
+    removed: string[];
+    changed: string[];
+}
+
+export type ConfigDiffPart =
+    | 'baseFolders' | 'groups' | 'projects' | 'favorites' | 'customGroups'
+    | 'projectTags' | 'projectSets' | 'groupStates' | 'hiddenProjects' | 'sort' | 'projectUsage';
+
+export type ConfigDiff = { [part in ConfigDiffPart]: ChangeList };
+
+const PART_LABELS: { [part in ConfigDiffPart]: string } = {
+    baseFolders: 'Base folders',
+    groups: 'Groups',
+    projects: 'Projects',
+    favorites: 'Favorites',
+    customGroups: 'Custom groups',
+    projectTags: 'Tags',
+    projectSets: 'Project sets',
+    groupStates: 'Group states',
+    hiddenProjects: 'Hidden projects',
+    sort: 'Sort order',
+    projectUsage: 'Usage'
+};
+
+/**
+ * Get the entries of one part of a config by their key, e.g. projects by id or custom groups by name
+ */
+function getEntries(config: ProjectConfig, part: ConfigDiffPart): Map<string, unknown> {
+    const projectsData = config.projectsData || {};
+    switch (part) {
+        case 'baseFolders':
+            return new Map([...config.baseFolders || [], ...config.unmappedBaseFolders || []].map(folder => [folder.name, folder]));
+        case 'groups':
+            return new Map(Object.entries(projectsData).map(([groupKey, projects]) => [groupKey, projects.map(project => project.id)]));
+        case 'projects':
+            // The git status, size and modification time change with every scan, they are not a change of the project
+            return new Map(Object.values(projectsData).flat().map(({ git, size, lastModified, ...project }) => [project.id, project]));
+        case 'favorites':
+        case 'hiddenProjects':
+            return new Map((config[part] || []).map(projectId => [projectId, true]));
+        case 'customGroups':
+        case 'projectSets':
+            return new Map((config[part] || []).map(list => [list.name, list.projects]));
+        case 'projectTags':
+        case 'groupStates':
+        case 'projectUsage':
+            return new Map(Object.entries(config[part] || {}));
+        case 'sort': {
+            // The order of all projects, of the groups and of the projects of single groups, and the custom order
+            const sort = config.sort || {};
+            const customOrder = config.customOrder || {};
+            const entries: [string, unknown][] = [
+                ['(all projects)', sort.projects],
+                ['(groups)', sort.groups],
+                ...Object.entries(sort.groupOverrides || {}),
+                ...Object.entries(customOrder.groups || {}).map(([parentKey, groupKeys]): [string, unknown] => [`${parentKey} (group order)`, groupKeys]),
+                ...Object.entries(customOrder.projects || {}).map(([groupKey, projectIds]): [string, unknown] => [`${groupKey} (custom order)`, projectIds])
+            ];
+            return new Map(entries.filter(([, value]) => value !== undefined));
+        }
+    }
+}
+
+/**
+ * Compare two configs part by part
+ */
+export function diffConfigs(before: ProjectConfig, after: ProjectConfig): ConfigDiff {
+    const diff = {} as ConfigDiff;
+    for (const part of Object.keys(PART_LABELS) as ConfigDiffPart[]) {
+        const beforeEntries = getEntries(before, part);
+        const afterEntries = getEntries(after, part);
+        diff[part] = {
+            added: [...afterEntries.keys()].filter(key => !beforeEntries.has(key)),
+            removed: [...beforeEntries.keys()].filter(key => !afterEntries.has(key)),
+            changed: [...afterEntries.keys()].filter(key => beforeEntries.has(key) && !isDeepStrictEqual(beforeEntries.get(key), afterEntries.get(key)))
+        };
+    }
+    return diff;
+}
+
+/**
+ * Check whether two configs differ in any part
+ */
+export function isEmptyDiff(diff: ConfigDiff): boolean {
+    return Object.values(diff).every(changes => changes.added.length + changes.removed.length + changes.changed.length === 0);
+}
+
+/**
+ * Count the changes of each part in one line, e.g. "Groups: 2 added · Projects: 1 changed"
+ */
+export function summarizeConfigDiff(diff: ConfigDiff): string {
+    const parts = (Object.keys(PART_LABELS) as ConfigDiffPart[])
+        .map(part => {
+            const counts = (['added', 'removed', 'changed'] as const)
+                .filter(kind => diff[part][kind].length > 0)
+                .map(kind => `${diff[part][kind].length} ${kind}`);
+            return counts.length > 0 ? `${PART_LABELS[part]}: ${counts.join(', ')}` : undefined;
+        })
+        .filter((summary): summary is string => summary !== undefined);
+    return parts.length > 0 ? parts.join(' · ') : 'No differences';
+}
+
+/**
+ * List the changed entries of each part, shortened to `limit` entries per part
+ */
+export function describeConfigDiff(diff: ConfigDiff, limit: number = 8): string {
+    const lines: string[] = [];
+    for (const part of Object.keys(PART_LABELS) as ConfigDiffPart[]) {
+        const entries = [
+            ...diff[part].added.map(key => `+ ${key}`),
+            ...diff[part].removed.map(key => `− ${key}`),
+            ...diff[part].changed.map(key => `~ ${key}`)
+        ];
+        if (entries.length === 0) {
+            continue;
+        }
+        lines.push(`${PART_LABELS[part]}:`, ...entries.slice(0, limit).map(entry => `  ${entry}`));
+        if (entries.length > limit) {
+            lines.push(`  … and ${entries.length - limit} more`);
+        }
+    }
+    return lines.length > 0 ? lines.join('\n') : 'No differences';
+}
@@ -0,0 +1,245 @@
+import * as vscode from 'vscode';
+import * as os from 'os';
+import * as path from 'path';
+import { isDeepStrictEqual } from 'util';
+import * as YAML from 'yaml';
+import { ConfigManager, SyncedConfig } from './configManager';
+import { mergeValues } from './configMerge';
+
+/**
+ * The synced configuration as it was last written to or read from the sync file,
+ * the common base of the next merge
+ */
+interface SyncFileBase {
+    path: string;
+    config: SyncedConfig;
+}
+
+const SYNC_FILE_SETTING = 'syncableProjectDashboard.sync.file';
+
+/**
+ * Keeps the synced part of the configuration in a JSON or YAML file, e.g. in a dotfiles
+ * repository or a shared folder. Local saves are written to the file and changes to the file
+ * are read back. When both changed since the last sync they are merged, preferring the file
+ * where the same value was changed on both sides.
+ */
+export class ConfigFileSync implements vscode.Disposable {
+    private configManager: ConfigManager;
+    private context: vscode.ExtensionContext;
+    private baseKey = 'syncableProjectDashboard.syncFileBase';
+    private fileWatcher: vscode.FileSystemWatcher | undefined;
+    private watchedFile: string | undefined;
+    private disposables: vscode.Disposable[] = [];
+    private debounceTimer: NodeJS.Timeout | undefined;
+    private syncing: Promise<void> = Promise.resolve();
+    private lastError: string | undefined;
+    private onDidApplyFileChangesEmitter = new vscode.EventEmitter<void>();
+
+    /**
+     * Fired after changes read from the sync file have been saved to the configuration
+     */
+    public readonly onDidApplyFileChanges = this.onDidApplyFileChangesEmitter.event;
+
+    constructor(configManager: ConfigManager, context: vscode.ExtensionContext) {
+        this.configManager = configManager;
+        this.context = context;
+
+        this.disposables.push(
+            this.onDidApplyFileChangesEmitter,
+            configManager.onDidSaveConfig(() => this.scheduleSync()),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration(SYNC_FILE_SETTING)) {
+                    this.lastError = undefined;
+                    this.updateWatcher();
+                    this.scheduleSync();
+                }
+            })
+        );
+        this.updateWatcher();
+        this.scheduleSync();
+    }
+
+    /**
+     * Get the absolute path of the sync file, undefined when file sync is off
+     */
+    public getFilePath(): string | undefined {
+        const setting = vscode.workspace.getConfiguration().get<string>(SYNC_FILE_SETTING, '').trim();
+        if (!setting) {
+            return undefined;
+        }
+        return path.resolve(setting.replace(/^~(?=$|[\\/])/, os.homedir()));
+    }
+
+    /**
+     * Ask for a JSON or YAML file and keep the configuration in sync with it. An existing file is
+     * merged with the current configuration, a new one is created from it.
+     */
+    public async link(): Promise<void> {
+        const currentPath = this.getFilePath();
+        const fileUri = await vscode.window.showSaveDialog({
+            defaultUri: vscode.Uri.file(currentPath || path.join(os.homedir(), 'project-dashboard.json')),
+            filters: {
+                'Configuration Files': ['json', 'yaml', 'yml']
+            },
+            saveLabel: 'Link',
+            title: 'Link Project Dashboard Configuration File'
+        });
+        if (!fileUri) {
+            return;
+        }
+
+        await vscode.workspace.getConfiguration().update(SYNC_FILE_SETTING, fileUri.fsPath, vscode.ConfigurationTarget.Global);
+        vscode.window.showInformationMessage(`The dashboard configuration is synced with ${fileUri.fsPath}.`);
+    }
+
+    /**
+     * Stop syncing with the file, the file and the configuration are left as they are
+     */
+    public async unlink(): Promise<void> {
+        if (!this.getFilePath()) {
+            vscode.window.showInformationMessage('The dashboard configuration is not linked to a file.');
+            return;
+        }
+        await vscode.workspace.getConfiguration().update(SYNC_FILE_SETTING, undefined, vscode.ConfigurationTarget.Global);
+    }
+
+    /**
+     * Watch the sync file for changes made outside of this window, e.g. by a git pull or another machine
+     */
+    private updateWatcher(): void {
+        const filePath = this.getFilePath();
+        if (filePath === this.watchedFile) {
+            return;
+        }
+        this.watchedFile = filePath;
+
+        this.fileWatcher?.dispose();
+        this.fileWatcher = undefined;
+        if (!filePath) {
+            return;
+        }
+
+        this.fileWatcher = vscode.workspace.createFileSystemWatcher(
+            new vscode.RelativePattern(vscode.Uri.file(path.dirname(filePath)), path.basename(filePath)),
+            false, false, true
+        );
+        this.fileWatcher.onDidCreate(() => this.scheduleSync());
+        this.fileWatcher.onDidChange(() => this.scheduleSync());
+    }
+
+    /**
+     * Sync shortly after the last change, saving a file or a scan produce several events at once
+     */
+    private scheduleSync(): void {
+        if (!this.watchedFile) {
+            return;
+        }
+        if (this.debounceTimer) {
+            clearTimeout(this.debounceTimer);
+        }
+        this.debounceTimer = setTimeout(() => {
+            this.debounceTimer = undefined;
+            this.syncing = this.syncing
+                .then(() => this.sync())
+                .catch(error => console.error('Error syncing the configuration file:', error));
+        }, 500);
+    }
+
+    /**
+     * Merge the sync file with the configuration, then write the result to whichever side is behind
+     */
+    private async sync(): Promise<void> {
+        const filePath = this.getFilePath();
+        if (!filePath) {
+            return;
+        }
+        const fileUri = vscode.Uri.file(filePath);
+
+        let fileContent: string | undefined;
+        try {
+            fileContent = Buffer.from(await vscode.workspace.fs.readFile(fileUri)).toString('utf8');
+        } catch (error) {
+            if (!(error instanceof vscode.FileSystemError && error.code === 'FileNotFound')) {
+                this.reportError(`Failed to read the configuration file ${filePath}: ${error}`);
+                return;
+            }
+        }
+
+        let fileConfig: SyncedConfig | undefined;
+        if (fileContent !== undefined && fileContent.trim()) {
+            try {
+                fileConfig = this.parse(filePath, fileContent);
+            } catch (error) {
+                // Never overwrite a file that is being edited by hand or has a merge conflict
+                this.reportError(`The configuration file ${filePath} could not be read and is not synced until it is fixed: ${error}`);
+                return;
+            }
+        }
+
+        const localConfig = this.normalize(this.configManager.getSyncedConfig());
+        const storedBase = this.context.globalState.get<SyncFileBase>(this.baseKey);
+        const baseConfig = storedBase?.path === filePath ? storedBase.config : undefined;
+
+        let merged = fileConfig
+            ? this.normalize(mergeValues(baseConfig, localConfig, fileConfig, 'incoming') as SyncedConfig)
+            : localConfig;
+
+        if (!isDeepStrictEqual(merged, localConfig)) {
+            await this.configManager.applySyncedConfig(merged, `Apply changes from ${path.basename(filePath)}`);
+            merged = this.normalize(this.configManager.getSyncedConfig());
+            this.onDidApplyFileChangesEmitter.fire();
+        }
+        if (!fileConfig || !isDeepStrictEqual(merged, fileConfig)) {
+            await vscode.workspace.fs.writeFile(fileUri, Buffer.from(this.serialize(filePath, merged), 'utf8'));
+        }
+
+        await this.context.globalState.update(this.baseKey, { path: filePath, config: merged });
+        this.lastError = undefined;
+    }
+
+    /**
+     * Parse the sync file, YAML for .yaml and .yml files and JSON otherwise, then migrate and
+     * validate it like an imported config so invalid values are never saved or synced
+     */
+    private parse(filePath: string, content: string): SyncedConfig {
+        const parsed = this.isYaml(filePath) ? YAML.parse(content) : JSON.parse(content);
+        if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+            throw new Error('the file does not contain a dashboard configuration');
+        }
+        return this.normalize(this.configManager.parseSyncedConfig(parsed));
+    }
+
+    private serialize(filePath: string, config: SyncedConfig): string {
+        return this.isYaml(filePath) ? YAML.stringify(config) : `${JSON.stringify(config, null, 2)}\n`;
+    }
+
+    private isYaml(filePath: string): boolean {
+        return /\.ya?ml$/i.test(filePath);
+    }
+
+    /**
+     * Drop undefined values so configs read from the file and from the global state compare equal
+     */
+    private normalize(config: SyncedConfig): SyncedConfig {
+        return JSON.parse(JSON.stringify(config));
+    }
+
+    /**
+     * Show a sync error once, saves keep failing the same way until the file is fixed
+     */
+    private reportError(message: string): void {
+        if (message === this.lastError) {
+            return;
+        }
+        this.lastError = message;
+        vscode.window.showWarningMessage(message);
+    }
+
+    public dispose(): void {
+        if (this.debounceTimer) {
+            clearTimeout(this.debounceTimer);
+        }
+        this.fileWatcher?.dispose();
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+}
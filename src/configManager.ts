@@ -1,56 +1,604 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
+import * as jsonc from 'jsonc-parser';
+import { ProjectScanner, ScanOptions, WORKSPACE_FILE_EXTENSION } from './projectScanner';
+import { GitInfo } from './gitInfo';
+import { ProjectDetector, ProjectDetectorRegistry, ProjectMetadata } from './projectDetectors';
+import { DEFAULT_COLOR_KEYS, findSettingsColor, getDistinctColors } from './projectColors';
+import { CustomOrder, DEFAULT_PROJECT_SORT, SortCriterion, SortModel, describeSortCriteria, sortGroupKeys, sortProjects } from './projectSort';
+import {
+    CONFIG_SCHEMA, CONFIG_SCHEMA_VERSION, ConfigProblem, JsonSchema, SYNCED_CONFIG_SCHEMA,
+    describeConfigProblems, removeInvalidValues, validateConfig
+} from './configSchema';
 
 export interface ProjectInfo {
     name: string;
+    id: string; // "<base folder name>/<path relative to the base folder>"
     color?: string; // Activity bar background color if defined
+    git?: GitInfo; // Git metadata when the project is a git repository
+    languages?: string[]; // Detected languages, e.g. "TypeScript"
+    frameworks?: string[]; // Detected frameworks, e.g. "React"
+    packageManager?: string; // Detected package manager, e.g. "pnpm"
+    tags?: string[]; // Tags declared in the project's .vscode/settings.json
+    workspaceFile?: boolean; // A .code-workspace file found in a group folder instead of a project folder
+    size?: number; // Bytes in the project's files, without .git and node_modules
+    lastModified?: number; // Modification time of the project's newest file, without .git and node_modules
 }
 
+/**
+ * What the dashboard reads from a project's .vscode/settings.json
+ */
+export interface ProjectSettings {
+    color?: string;
+    tags?: string[];
+}
+
+/**
+ * Key of the tags in a project's .vscode/settings.json
+ */
+export const PROJECT_TAGS_SETTING = 'syncableProjectDashboard.tags';
+
+export interface LayoutRules {
+    mode?: 'groups' | 'flat' | 'markers'; // How folders map to groups and projects (default: groups)
+    maxDepth?: number; // Deepest folder level that is scanned, projects sit at this level in "groups" mode
+    markers?: string[]; // Files or folders that make a folder a project in "markers" mode, e.g. ".git" or "*.code-workspace"
+}
+
+export interface BaseFolder {
+    name: string; // Logical name of the root, unique across the dashboard
+    path: string; // Absolute path on disk
+    layout?: LayoutRules;
+}
+
+export interface ProjectUsage {
+    lastOpened: number; // Timestamp of the last time the project was opened
+    openCount: number;
+}
+
+/**
+ * A user defined group holding projects from any base folder or group
+ */
+export interface CustomGroup {
+    name: string; // Unique among the custom groups
+    projects: string[]; // Project ids, kept when a project is missing from a scan
+    collapsed?: boolean;
+}
+
+/**
+ * Projects that are opened together as one multi-root workspace
+ */
+export interface ProjectSet {
+    name: string; // Unique among the project sets
+    projects: string[]; // Project ids, in the order of the workspace folders
+}
+
+/**
+ * Where a project is placed by the user: the favorites, a custom group, or undefined for its folder group only
+ */
+export type VirtualGroupRef = { kind: 'favorites' } | { kind: 'custom'; name: string };
+
+export type ProjectsData = {
+    [groupKey: string]: ProjectInfo[]; // "<base folder name>/<group path>" -> array of project info
+};
+
+export interface ScanProjectsOptions {
+    token?: vscode.CancellationToken;
+    progress?: vscode.Progress<{ message?: string; increment?: number }>;
+    onGroupScanned?: (baseFolder: BaseFolder, groupKey: string, projectsData: ProjectsData) => void;
+}
+
+export interface GroupStateChangeEvent {
+    groupKey: string;
+    expanded: boolean;
+}
+
+/**
+ * A base folder as it is synced between machines, without its path
+ */
+export type SyncedBaseFolder = Omit<BaseFolder, 'path'>;
+
+/**
+ * The configuration as seen by the rest of the extension. It is stored in two parts:
+ * what is the same on every machine is synced with Settings Sync, while the paths of the
+ * base folders, scan results and usage stay on this machine.
+ */
 export interface ProjectConfig {
+    schemaVersion?: number; // Version of the shape of the config, see CONFIG_SCHEMA_VERSION
+    baseFolders?: BaseFolder[]; // Base folders with a path on this machine
+    unmappedBaseFolders?: SyncedBaseFolder[]; // Base folders synced from other machines without a path on this machine yet
+    /**
+     * @deprecated Single root used before multiple base folders were supported.
+     * Migrated into `baseFolders` when the config is loaded.
+     */
     baseProjectsFolder?: string;
-    projectsData?: {
-        [groupName: string]: ProjectInfo[]; // Group name -> array of project info
-    };
+    projectsData?: ProjectsData;
     lastScanTime?: number;
     groupStates?: {
-        [groupName: string]: boolean; // Group name -> expanded state (true = expanded, false = collapsed)
+        [groupKey: string]: boolean; // Group key -> expanded state (true = expanded, false = collapsed)
+    };
+    hiddenProjects?: string[]; // Ids of projects excluded from scans
+    projectUsage?: {
+        [projectId: string]: ProjectUsage;
+    };
+    favorites?: string[]; // Ids of starred projects, in display order
+    projectTags?: {
+        [projectId: string]: string[]; // Tags added on the dashboard, kept across scans
+    };
+    customGroups?: CustomGroup[];
+    projectSets?: ProjectSet[];
+    sort?: SortModel; // Order of groups and projects, applied when they are shown
+    customOrder?: CustomOrder; // Groups and projects arranged by drag and drop, kept across scans
+}
+
+/**
+ * The configuration as it was before a change, kept to undo the change or to restore it later
+ */
+export interface ConfigSnapshot {
+    timestamp: number;
+    action: string; // The change made after the snapshot was taken, e.g. 'Remove base folder "work"'
+    config: ProjectConfig;
+}
+
+/**
+ * The part of the configuration that is synced between machines
+ */
+export type SyncedConfig = Omit<ProjectConfig, 'baseFolders' | 'unmappedBaseFolders' | 'baseProjectsFolder' | MachineConfigKey> & {
+    baseFolders?: SyncedBaseFolder[];
+};
+
+/**
+ * The part of the configuration that only applies to this machine
+ */
+interface MachineConfig extends Pick<ProjectConfig, MachineConfigKey> {
+    baseFolderPaths?: {
+        [baseFolderName: string]: string; // Logical name of a base folder -> absolute path on this machine
     };
 }
 
+type MachineConfigKey = 'projectsData' | 'lastScanTime' | 'projectUsage';
+
+/**
+ * An open reported by a new window within this time of a recorded open is the same open
+ */
+const OPEN_DEDUPLICATION_WINDOW = 60 * 1000;
+
 export class ConfigManager {
     private context: vscode.ExtensionContext;
-    private configKey = 'syncableProjectDashboard.config';
+    private configKey = 'syncableProjectDashboard.config'; // Synced between machines
+    private machineConfigKey = 'syncableProjectDashboard.machine';
+    private historyKey = 'syncableProjectDashboard.history'; // Stays on this machine
+    private scanner: ProjectScanner;
+    private detectors = new ProjectDetectorRegistry();
+    private onDidSaveConfigEmitter = new vscode.EventEmitter<ProjectConfig>();
+    private validatedState: { synced: unknown; machine: unknown } | undefined; // Stored values that passed validation
+    private savedState: { synced: unknown; machine: unknown; config: ProjectConfig } | undefined; // Copy of the stored values for the next snapshot
+    private reportedProblems: string | undefined;
+
+    /**
+     * Migrations from each schema version to the next, applied in order when a config is loaded or imported
+     */
+    private migrations: { [fromVersion: number]: (config: ProjectConfig) => ProjectConfig } = {
+        0: config => this.migrateBaseProjectsFolder(config)
+    };
+
+    /**
+     * Fired after the configuration has been saved
+     */
+    public readonly onDidSaveConfig = this.onDidSaveConfigEmitter.event;
+
+    private onDidChangeGroupStateEmitter = new vscode.EventEmitter<GroupStateChangeEvent>();
+
+    /**
+     * Fired after a group was expanded or collapsed, in the dashboard or in the tree view
+     */
+    public readonly onDidChangeGroupState = this.onDidChangeGroupStateEmitter.event;
 
     constructor(context: vscode.ExtensionContext) {
         this.context = context;
+        this.scanner = new ProjectScanner(this);
+        context.subscriptions.push(this.onDidSaveConfigEmitter, this.onDidChangeGroupStateEmitter);
+
+        context.globalState.setKeysForSync([this.configKey]);
+
+        // Configs saved before they were split keep everything in the synced key, move the
+        // paths out before they are synced to other machines
+        if (!context.globalState.get<MachineConfig>(this.machineConfigKey)) {
+            this.saveConfig(this.getConfig()).then(undefined, error => {
+                console.error('Error splitting the configuration:', error);
+            });
+        }
     }
 
     /**
-     * Get the current configuration
+     * Get the current configuration, combined from its synced and machine specific parts
      */
     public getConfig(): ProjectConfig {
-        return this.context.globalState.get<ProjectConfig>(this.configKey, {});
+        const synced = this.context.globalState.get<SyncedConfig & ProjectConfig>(this.configKey, {});
+        const machine = this.context.globalState.get<MachineConfig>(this.machineConfigKey);
+
+        // Not split yet, the synced key still holds the paths and scan results
+        const joined: ProjectConfig = machine ? this.joinConfig(synced, machine) : { ...synced };
+
+        // Validating is only needed when the stored values have changed since the last check
+        const config = this.validatedState?.synced === synced && this.validatedState.machine === machine
+            ? this.migrateStoredConfig(joined)
+            : this.guardConfig(joined, synced, machine);
+
+        // The config is changed in place before it is saved. The first read after the stored values
+        // changed comes before any such change, a copy taken then is the snapshot of the next save.
+        if (this.savedState?.synced !== synced || this.savedState.machine !== machine) {
+            this.savedState = { synced: synced, machine: machine, config: structuredClone(config) };
+        }
+        return config;
+    }
+
+    /**
+     * Migrate a stored config. One synced from a newer version of the extension on another machine
+     * is used as it is, properties this version does not know are kept when it is saved.
+     */
+    private migrateStoredConfig(config: ProjectConfig): ProjectConfig {
+        return (config.schemaVersion || 0) > CONFIG_SCHEMA_VERSION ? config : this.migrateConfig(config);
+    }
+
+    /**
+     * Migrate a stored config and leave out values that do not match the schema, e.g. from a
+     * corrupted global state or a sync file edited by hand. The rest of the config stays usable.
+     */
+    private guardConfig(config: ProjectConfig, synced: unknown, machine: unknown): ProjectConfig {
+        let migrated = config;
+        let problems: ConfigProblem[];
+        try {
+            migrated = this.migrateStoredConfig(config);
+            problems = validateConfig(migrated);
+        } catch (error) {
+            problems = [{ path: [], message: `could not be migrated: ${error}` }];
+        }
+
+        if (problems.length === 0) {
+            this.validatedState = { synced: synced, machine: machine };
+            this.reportedProblems = undefined;
+            return migrated;
+        }
+
+        const description = describeConfigProblems(problems);
+        if (description !== this.reportedProblems) {
+            this.reportedProblems = description;
+            console.error('Invalid values in the saved configuration:', problems);
+            vscode.window.showWarningMessage(`The saved dashboard configuration has invalid values that are ignored: ${description}`);
+        }
+        return removeInvalidValues(migrated, problems);
+    }
+
+    /**
+     * Migrate a config read from a file to the current schema version and validate it.
+     * Throws an error listing the path of every invalid value.
+     */
+    public parseConfig(value: unknown, schema: JsonSchema = CONFIG_SCHEMA): ProjectConfig {
+        const problems = validateConfig(value, { type: 'object', properties: { schemaVersion: { type: 'integer', minimum: 0 } } });
+        if (problems.length > 0) {
+            throw new Error(`Invalid configuration: ${describeConfigProblems(problems)}`);
+        }
+
+        let config: ProjectConfig;
+        try {
+            config = this.migrateConfig(value as ProjectConfig);
+        } catch (error) {
+            throw new Error(`Invalid configuration: ${error instanceof Error ? error.message : error}`);
+        }
+
+        const migratedProblems = validateConfig(config, schema);
+        if (migratedProblems.length > 0) {
+            throw new Error(`Invalid configuration: ${describeConfigProblems(migratedProblems)}`);
+        }
+        return config;
+    }
+
+    /**
+     * Save the configuration, split into the synced part and the part for this machine only.
+     * Saves made for a change of the user, named by `action`, keep a snapshot of the
+     * configuration before the change in the history.
+     */
+    public saveConfig(config: ProjectConfig, action?: string): Thenable<void> {
+        const { synced, machine } = this.splitConfig(config);
+        const snapshotSaved = action ? this.saveSnapshot(action) : Promise.resolve();
+
+        return snapshotSaved
+            .then(() => this.context.globalState.update(this.machineConfigKey, machine))
+            .then(() => this.context.globalState.update(this.configKey, synced))
+            .then(() => this.onDidSaveConfigEmitter.fire(config));
+    }
+
+    /**
+     * Get the snapshots taken before the last changes, the most recent last
+     */
+    public getHistory(): ConfigSnapshot[] {
+        return this.context.globalState.get<ConfigSnapshot[]>(this.historyKey, []);
+    }
+
+    /**
+     * Add a snapshot of the current configuration to the history, dropping the oldest ones
+     * beyond `syncableProjectDashboard.history.size`
+     */
+    private saveSnapshot(action: string): Thenable<void> {
+        const size = vscode.workspace.getConfiguration('syncableProjectDashboard.history').get<number>('size', 20);
+        // Reading the config copies the stored values when they changed since the last read
+        this.getConfig();
+        const history = [...this.getHistory(), { timestamp: Date.now(), action: action, config: this.savedState!.config }];
+        return this.context.globalState.update(this.historyKey, history.slice(Math.max(0, history.length - size)));
+    }
+
+    /**
+     * Go back to the snapshot taken before the last change and remove it from the history
+     */
+    public async undo(): Promise<ConfigSnapshot | undefined> {
+        const history = this.getHistory();
+        const snapshot = history.pop();
+        if (!snapshot) {
+            return undefined;
+        }
+        await this.context.globalState.update(this.historyKey, history);
+        await this.saveConfig(this.getRestoredConfig(snapshot));
+        return snapshot;
+    }
+
+    /**
+     * Go back to any snapshot of the history. The restore is a change itself and can be undone.
+     */
+    public async restoreSnapshot(snapshot: ConfigSnapshot): Promise<void> {
+        await this.saveConfig(this.getRestoredConfig(snapshot), `Restore the backup from ${new Date(snapshot.timestamp).toLocaleString()}`);
+    }
+
+    /**
+     * Get the configuration of a snapshot, keeping when and how often projects were opened since
+     */
+    public getRestoredConfig(snapshot: ConfigSnapshot): ProjectConfig {
+        // A copy, the snapshot stays in the history while the restored config is changed in place
+        return {
+            ...this.migrateStoredConfig(structuredClone(snapshot.config)),
+            projectUsage: this.getConfig().projectUsage
+        };
+    }
+
+    /**
+     * Get the part of the current configuration that is the same on every machine
+     */
+    public getSyncedConfig(): SyncedConfig {
+        return this.splitConfig(this.getConfig()).synced;
+    }
+
+    /**
+     * Migrate and validate the synced part of a configuration, e.g. read from a sync file. Values that
+     * only apply to a single machine are left out. Throws an error listing the path of every invalid value.
+     */
+    public parseSyncedConfig(value: unknown): SyncedConfig {
+        return this.splitConfig(this.parseConfig(value, SYNCED_CONFIG_SCHEMA)).synced;
+    }
+
+    /**
+     * Replace the part of the configuration that is the same on every machine, e.g. with one read from
+     * a sync file. Base folders keep their path on this machine, new ones are listed as unmapped.
+     */
+    public applySyncedConfig(synced: SyncedConfig, action?: string): Thenable<void> {
+        const { machine } = this.splitConfig(this.getConfig());
+        const config = this.joinConfig(synced, machine);
+
+        // Scan results and usage of base folders removed elsewhere are no longer shown
+        const baseFolderNames = (synced.baseFolders || []).map(folder => folder.name);
+        const isKnown = (key: string) => baseFolderNames.includes(this.splitKey(key).baseFolderName);
+        if (config.projectsData) {
+            config.projectsData = Object.fromEntries(Object.entries(config.projectsData).filter(([groupKey]) => isKnown(groupKey)));
+        }
+        if (config.projectUsage) {
+            config.projectUsage = Object.fromEntries(Object.entries(config.projectUsage).filter(([projectId]) => isKnown(projectId)));
+        }
+
+        return this.saveConfig(config, action);
+    }
+
+    /**
+     * Combine the synced and machine specific parts into the configuration
+     */
+    private joinConfig(synced: SyncedConfig & Pick<ProjectConfig, 'baseProjectsFolder'>, machine: MachineConfig): ProjectConfig {
+        const { baseFolderPaths = {}, ...machineData } = machine;
+        const { baseFolders = [], ...syncedData } = synced;
+        delete syncedData.baseProjectsFolder;
+        return {
+            ...syncedData,
+            ...machineData,
+            baseFolders: baseFolders
+                .filter(folder => baseFolderPaths[folder.name])
+                .map(folder => ({ ...folder, path: baseFolderPaths[folder.name] })),
+            unmappedBaseFolders: baseFolders
+                .filter(folder => !baseFolderPaths[folder.name])
+                .map(({ name, layout }) => ({ name: name, layout: layout }))
+        };
+    }
+
+    /**
+     * Split the configuration into the part that is synced and the part for this machine only
+     */
+    private splitConfig(config: ProjectConfig): { synced: SyncedConfig; machine: MachineConfig } {
+        const {
+            baseFolders = [], unmappedBaseFolders = [],
+            projectsData, lastScanTime, projectUsage,
+            ...syncedData
+        } = config;
+        delete syncedData.baseProjectsFolder; // Migrated when the config was read
+
+        return {
+            synced: {
+                ...syncedData,
+                baseFolders: [
+                    ...baseFolders.map(({ name, layout }) => ({ name: name, layout: layout })),
+                    ...unmappedBaseFolders
+                ]
+            },
+            machine: {
+                baseFolderPaths: Object.fromEntries(baseFolders.map(folder => [folder.name, folder.path])),
+                projectsData: projectsData,
+                lastScanTime: lastScanTime,
+                projectUsage: projectUsage
+            }
+        };
+    }
+
+    /**
+     * Bring a config written by an older version of the extension to the current schema version
+     */
+    public migrateConfig(config: ProjectConfig): ProjectConfig {
+        const version = config.schemaVersion || 0;
+        if (version > CONFIG_SCHEMA_VERSION) {
+            throw new Error(`The configuration was written by a newer version of the extension (schema version ${version})`);
+        }
+        if (version === CONFIG_SCHEMA_VERSION) {
+            return config;
+        }
+
+        let migrated = config;
+        for (let fromVersion = version; fromVersion < CONFIG_SCHEMA_VERSION; fromVersion++) {
+            migrated = this.migrations[fromVersion](migrated);
+        }
+        return { ...migrated, schemaVersion: CONFIG_SCHEMA_VERSION };
+    }
+
+    /**
+     * Version 0 to 1: convert a config that still uses the single `baseProjectsFolder` into one with `baseFolders`
+     */
+    private migrateBaseProjectsFolder(config: ProjectConfig): ProjectConfig {
+        if (!config.baseProjectsFolder) {
+            return config;
+        }
+
+        const legacyFolder = config.baseProjectsFolder;
+        const baseFolder: BaseFolder = {
+            name: this.getDefaultBaseFolderName(legacyFolder, config.baseFolders || []),
+            path: legacyFolder
+        };
+
+        // Group keys used to be the bare group name, prefix them with the base folder name
+        const prefixKeys = <T>(data: { [groupName: string]: T } | undefined) => {
+            if (!data) {
+                return undefined;
+            }
+            const prefixed: { [groupKey: string]: T } = {};
+            for (const groupName of Object.keys(data)) {
+                prefixed[this.getGroupKey(baseFolder.name, groupName)] = data[groupName];
+            }
+            return prefixed;
+        };
+
+        const projectsData = prefixKeys(config.projectsData);
+        if (projectsData) {
+            for (const groupKey of Object.keys(projectsData)) {
+                projectsData[groupKey] = projectsData[groupKey].map(project => ({
+                    ...project,
+                    id: project.id || `${groupKey}/${project.name}`
+                }));
+            }
+        }
+
+        const migrated: ProjectConfig = {
+            ...config,
+            baseFolders: [...(config.baseFolders || []), baseFolder],
+            projectsData: projectsData,
+            groupStates: prefixKeys(config.groupStates)
+        };
+        delete migrated.baseProjectsFolder;
+
+        return migrated;
+    }
+
+    /**
+     * Get the configured base folders
+     */
+    public getBaseFolders(): BaseFolder[] {
+        return this.getConfig().baseFolders || [];
+    }
+
+    /**
+     * Find a base folder by its logical name
+     */
+    public getBaseFolder(name: string): BaseFolder | undefined {
+        return this.getBaseFolders().find(folder => folder.name === name);
+    }
+
+    /**
+     * Build the key used for a group in `projectsData` and `groupStates`.
+     * Nested groups use their path below the base folder, e.g. "work/clients/acme".
+     */
+    public getGroupKey(baseFolderName: string, groupName: string): string {
+        return groupName ? `${baseFolderName}/${groupName}` : baseFolderName;
+    }
+
+    /**
+     * Check whether a group key belongs to the given group or one of its nested groups
+     */
+    public isGroupOrDescendant(groupKey: string, parentKey: string): boolean {
+        return groupKey === parentKey || groupKey.startsWith(`${parentKey}/`);
+    }
+
+    /**
+     * Link every group of a base folder to its parent group, top level groups belong to the base folder key
+     */
+    public getChildGroups(baseFolder: BaseFolder, projectsData: ProjectsData): { [parentKey: string]: string[] } {
+        const rootKey = this.getGroupKey(baseFolder.name, '');
+        const childGroups: { [parentKey: string]: string[] } = {};
+
+        for (const groupKey of Object.keys(projectsData)) {
+            if (groupKey === rootKey || !this.isGroupOrDescendant(groupKey, rootKey)) {
+                continue;
+            }
+            const parentKey = groupKey.substring(0, groupKey.lastIndexOf('/'));
+            const parentGroupKey = parentKey in projectsData ? parentKey : rootKey;
+            (childGroups[parentGroupKey] = childGroups[parentGroupKey] || []).push(groupKey);
+        }
+
+        const config = this.getConfig();
+        for (const parentKey of Object.keys(childGroups)) {
+            childGroups[parentKey] = sortGroupKeys(childGroups[parentKey], config.sort?.groups, config.customOrder?.groups?.[parentKey]);
+        }
+        return childGroups;
+    }
+
+    /**
+     * Split a group key or project id into the base folder name and the path below it
+     */
+    public splitKey(key: string): { baseFolderName: string; relativePath: string } {
+        const separatorIndex = key.indexOf('/');
+        if (separatorIndex === -1) {
+            return { baseFolderName: key, relativePath: '' };
+        }
+        return {
+            baseFolderName: key.substring(0, separatorIndex),
+            relativePath: key.substring(separatorIndex + 1)
+        };
     }
 
     /**
-     * Save the configuration
+     * Resolve a group key or project id to an absolute path on disk
      */
-    public saveConfig(config: ProjectConfig): Thenable<void> {
-        return this.context.globalState.update(this.configKey, config);
+    public resolvePath(key: string): string {
+        const { baseFolderName, relativePath } = this.splitKey(key);
+        const baseFolder = this.getBaseFolder(baseFolderName);
+        if (!baseFolder) {
+            throw new Error(`Unknown base folder: ${baseFolderName}`);
+        }
+        return path.join(baseFolder.path, ...relativePath.split('/').filter(Boolean));
     }
 
     /**
-     * Set the base projects folder path
+     * Add a base projects folder, asking the user for the folder and its name when not provided.
+     * Using the name of a base folder synced from another machine maps it to the folder.
      */
-    public async setBaseProjectsFolder(folderPath?: string): Promise<string | undefined> {
+    public async addBaseFolder(folderPath?: string, name?: string): Promise<BaseFolder | undefined> {
         // If folder path is not provided, ask the user to select one
         if (!folderPath) {
             const options: vscode.OpenDialogOptions = {
                 canSelectFiles: false,
                 canSelectFolders: true,
                 canSelectMany: false,
-                title: 'Select Base Projects Folder'
+                title: name ? `Select the Folder of "${name}" on This Machine` : 'Select Base Projects Folder'
             };
 
             const folderUri = await vscode.window.showOpenDialog(options);
@@ -65,38 +613,145 @@ export class ConfigManager {
             throw new Error(`Folder does not exist: ${folderPath}`);
         }
 
-        // Save the folder path in config
         const config = this.getConfig();
-        config.baseProjectsFolder = folderPath;
-        await this.saveConfig(config);
-        
-        return folderPath;
+        const baseFolders = config.baseFolders || [];
+
+        if (baseFolders.some(folder => path.resolve(folder.path) === path.resolve(folderPath!))) {
+            throw new Error(`Folder is already a base folder: ${folderPath}`);
+        }
+
+        // Ask for a logical name, defaulting to the folder name
+        if (!name) {
+            name = await vscode.window.showInputBox({
+                title: 'Base Folder Name',
+                prompt: 'Name shown for this base folder on the dashboard',
+                value: this.getDefaultBaseFolderName(folderPath, baseFolders),
+                validateInput: value => this.validateBaseFolderName(value, baseFolders)
+            });
+            if (!name) {
+                return undefined;
+            }
+        } else {
+            const validationError = this.validateBaseFolderName(name, baseFolders);
+            if (validationError) {
+                throw new Error(validationError);
+            }
+        }
+
+        // A base folder synced from another machine keeps its layout and gets its path on this machine
+        const unmappedBaseFolder = config.unmappedBaseFolders?.find(folder => folder.name === name);
+        config.unmappedBaseFolders = config.unmappedBaseFolders?.filter(folder => folder.name !== name);
+
+        // Save the folder in config
+        const baseFolder: BaseFolder = { ...unmappedBaseFolder, name: name, path: folderPath };
+        config.baseFolders = [...baseFolders, baseFolder];
+        await this.saveConfig(config, `Add base folder "${name}"`);
+
+        return baseFolder;
+    }
+
+    /**
+     * Remove a base folder together with its scanned groups and group states
+     */
+    public async removeBaseFolder(name: string): Promise<void> {
+        const config = this.getConfig();
+        config.baseFolders = (config.baseFolders || []).filter(folder => folder.name !== name);
+        config.unmappedBaseFolders = config.unmappedBaseFolders?.filter(folder => folder.name !== name);
+
+        for (const data of [config.projectsData, config.groupStates, config.projectUsage, config.projectTags]) {
+            if (!data) {
+                continue;
+            }
+            for (const groupKey of Object.keys(data)) {
+                if (this.isGroupOrDescendant(groupKey, name)) {
+                    delete data[groupKey];
+                }
+            }
+        }
+
+        // Projects of the base folder can no longer be favorites, in custom groups or in project sets
+        config.favorites = config.favorites?.filter(projectId => !this.isGroupOrDescendant(projectId, name));
+        for (const projectList of [...config.customGroups || [], ...config.projectSets || []]) {
+            projectList.projects = projectList.projects.filter(projectId => !this.isGroupOrDescendant(projectId, name));
+        }
+
+        await this.saveConfig(config, `Remove base folder "${name}"`);
+    }
+
+    /**
+     * Check a base folder name is usable as the first segment of group keys
+     */
+    private validateBaseFolderName(name: string, baseFolders: BaseFolder[]): string | undefined {
+        if (!name.trim()) {
+            return 'Name cannot be empty';
+        }
+        if (name.includes('/')) {
+            return 'Name cannot contain "/"';
+        }
+        if (baseFolders.some(folder => folder.name === name)) {
+            return `A base folder named "${name}" already exists`;
+        }
+        return undefined;
+    }
+
+    /**
+     * Derive a unique base folder name from the folder path
+     */
+    private getDefaultBaseFolderName(folderPath: string, baseFolders: BaseFolder[]): string {
+        const baseName = (path.basename(folderPath) || folderPath).replace(/\//g, '-');
+        let name = baseName;
+        let suffix = 2;
+        while (baseFolders.some(folder => folder.name === name)) {
+            name = `${baseName}-${suffix++}`;
+        }
+        return name;
     }
 
     /**
      * Extract color customization from .vscode/settings.json
      */
-    public getProjectColor(projectPath: string): string | undefined {
+    public async getProjectColor(projectPath: string): Promise<string | undefined> {
+        return (await this.readProjectSettings(projectPath)).color;
+    }
+
+    /**
+     * Read the color and tags of a project from its .vscode/settings.json. The color may also come
+     * from a .code-workspace file in the project. For a .code-workspace entry its own settings are read.
+     */
+    public async readProjectSettings(projectPath: string): Promise<ProjectSettings> {
+        const projectSettings: ProjectSettings = {};
         try {
-            const settingsPath = path.join(projectPath, '.vscode', 'settings.json');
-            
-            if (fs.existsSync(settingsPath)) {
-                const settingsContent = fs.readFileSync(settingsPath, 'utf-8');
-                const settings = JSON.parse(settingsContent);
-                
-                // Check for activity bar background color
-                if (settings && 
-                    settings.workbench && 
-                    settings.workbench.colorCustomizations && 
-                    settings.workbench.colorCustomizations['activityBar.background']) {
-                    return settings.workbench.colorCustomizations['activityBar.background'];
+            const colorKeys = vscode.workspace.getConfiguration('syncableProjectDashboard.colors').get<string[]>('keys', DEFAULT_COLOR_KEYS);
+            let settings: unknown;
+
+            if (projectPath.endsWith(WORKSPACE_FILE_EXTENSION)) {
+                const workspace = this.parseJsonc(await this.readFileIfExists(projectPath));
+                settings = isPlainObject(workspace) ? workspace.settings : undefined;
+            } else {
+                settings = this.parseJsonc(await this.readFileIfExists(path.join(projectPath, '.vscode', 'settings.json')));
+            }
+            projectSettings.color = findSettingsColor(settings, colorKeys);
+
+            // Tags declared by the project itself
+            const declaredTags = isPlainObject(settings) ? settings[PROJECT_TAGS_SETTING] : undefined;
+            if (Array.isArray(declaredTags)) {
+                const tags = this.normalizeTags(declaredTags.filter((tag): tag is string => typeof tag === 'string'));
+                if (tags.length > 0) {
+                    projectSettings.tags = tags;
                 }
-                
-                // Alternative path structure
-                if (settings && 
-                    settings['workbench.colorCustomizations'] && 
-                    settings['workbench.colorCustomizations']['activityBar.background']) {
-                    return settings['workbench.colorCustomizations']['activityBar.background'];
+            }
+
+            // Without a color in its settings, use the color of a workspace file in the project root
+            if (!projectSettings.color && !projectPath.endsWith(WORKSPACE_FILE_EXTENSION)) {
+                const workspaceFiles = (await fs.promises.readdir(projectPath))
+                    .filter(fileName => fileName.endsWith(WORKSPACE_FILE_EXTENSION))
+                    .sort();
+                for (const fileName of workspaceFiles) {
+                    const workspace = this.parseJsonc(await this.readFileIfExists(path.join(projectPath, fileName)));
+                    projectSettings.color = findSettingsColor(isPlainObject(workspace) ? workspace.settings : undefined, colorKeys);
+                    if (projectSettings.color) {
+                        break;
+                    }
                 }
             }
         } catch (error) {
@@ -104,58 +759,750 @@ export class ConfigManager {
             console.error(`Error reading color settings for ${projectPath}:`, error);
         }
         
-        return undefined;
+        return projectSettings;
     }
 
     /**
-     * Scan the projects directory and update the config
+     * Write the color of a project into its .vscode/settings.json, or into the settings of a
+     * .code-workspace entry, keeping the comments and formatting of the file. The color replaces
+     * the one currently shown, otherwise it is written as `activityBar.background`. Without a color
+     * every key of `syncableProjectDashboard.colors.keys` is removed.
+     * Returns true when the color of the project changed.
      */
-    public async scanProjects(): Promise<ProjectConfig> {
-        const config = this.getConfig();
-        
-        if (!config.baseProjectsFolder) {
-            throw new Error('Base projects folder not set');
-        }
+    public async setProjectColor(projectId: string, color: string | undefined): Promise<boolean> {
+        const projectPath = this.resolvePath(projectId);
+        const isWorkspaceFile = projectPath.endsWith(WORKSPACE_FILE_EXTENSION);
+        const settingsPath = isWorkspaceFile ? projectPath : path.join(projectPath, '.vscode', 'settings.json');
+        const content = await this.readFileIfExists(settingsPath);
 
-        // Ensure the folder exists
-        if (!fs.existsSync(config.baseProjectsFolder)) {
-            throw new Error(`Base projects folder does not exist: ${config.baseProjectsFolder}`);
-        }
+        const originalText = content?.trim() ? content : '{}';
+        let text = originalText;
+        const root = this.parseJsonc(text);
+        const fileSettings = isWorkspaceFile && isPlainObject(root) ? root.settings : root;
+        const settings = isPlainObject(fileSettings) ? fileSettings : {};
+        const nestedCustomizations = isPlainObject(settings.workbench) ? settings.workbench.colorCustomizations : undefined;
+        const settingsPrefix = isWorkspaceFile ? ['settings'] : [];
+        const formattingOptions = this.getFormattingOptions(text);
+        const update = (jsonPath: jsonc.JSONPath, value: string | undefined) => {
+            text = jsonc.applyEdits(text, jsonc.modify(text, [...settingsPrefix, ...jsonPath], value, { formattingOptions }));
+        };
 
-        const projectsData: { [groupName: string]: ProjectInfo[] } = {};
+        // Color keys can be settings such as peacock.color, or theme colors in either form of colorCustomizations
+        const findKey = (key: string): jsonc.JSONPath | undefined => {
+            if (typeof settings[key] === 'string') {
+                return [key];
+            }
+            const customizations = settings['workbench.colorCustomizations'];
+            if (isPlainObject(customizations) && customizations[key] !== undefined) {
+                return ['workbench.colorCustomizations', key];
+            }
+            if (isPlainObject(nestedCustomizations) && nestedCustomizations[key] !== undefined) {
+                return ['workbench', 'colorCustomizations', key];
+            }
+            return undefined;
+        };
 
-        // Read first level directories (group folders)
-        const groupFolders = fs.readdirSync(config.baseProjectsFolder, { withFileTypes: true })
-            .filter(dirent => dirent.isDirectory())
-            .map(dirent => dirent.name);
+        const colorKeys = vscode.workspace.getConfiguration('syncableProjectDashboard.colors').get<string[]>('keys', DEFAULT_COLOR_KEYS);
+        if (color === undefined) {
+            for (const key of colorKeys) {
+                for (const keyPath of [[key], ['workbench.colorCustomizations', key], ['workbench', 'colorCustomizations', key]]) {
+                    if (jsonc.findNodeAtLocation(jsonc.parseTree(text)!, [...settingsPrefix, ...keyPath])) {
+                        update(keyPath, undefined);
+                    }
+                }
+            }
+        } else {
+            const shownKey = colorKeys.map(findKey).find(keyPath => keyPath !== undefined);
+            const defaultKey = colorKeys.includes('activityBar.background') ? 'activityBar.background' : colorKeys[0] || 'activityBar.background';
+            const usesNestedForm = nestedCustomizations !== undefined && settings['workbench.colorCustomizations'] === undefined;
+            update(shownKey || (usesNestedForm ? ['workbench', 'colorCustomizations', defaultKey] : ['workbench.colorCustomizations', defaultKey]), color);
+        }
 
-        // For each group folder, get the project folders
-        for (const groupName of groupFolders) {
-            const groupPath = path.join(config.baseProjectsFolder, groupName);
-            const projectFolders = fs.readdirSync(groupPath, { withFileTypes: true })
-                .filter(dirent => dirent.isDirectory())
-                .map(dirent => dirent.name);
+        if (text !== originalText) {
+            await fs.promises.mkdir(path.dirname(settingsPath), { recursive: true });
+            await fs.promises.writeFile(settingsPath, text, 'utf-8');
+        }
+        return this.refreshProjectSettings(projectId);
+    }
 
-            const projectInfoList: ProjectInfo[] = [];
-            
-            for (const projectName of projectFolders) {
-                const projectPath = path.join(groupPath, projectName);
-                const color = this.getProjectColor(projectPath);
-                
-                projectInfoList.push({
-                    name: projectName,
-                    color: color
-                });
+    /**
+     * Give every project of a folder group a different color. Returns the ids of the projects whose color changed.
+     */
+    public async assignGroupColors(groupKey: string): Promise<string[]> {
+        const projects = this.getConfig().projectsData?.[groupKey] || [];
+        const colors = getDistinctColors(projects.length);
+        const changedIds: string[] = [];
+        for (const [index, project] of projects.entries()) {
+            if (await this.setProjectColor(project.id, colors[index])) {
+                changedIds.push(project.id);
             }
-
-            projectsData[groupName] = projectInfoList;
         }
+        return changedIds;
+    }
 
-        // Update the config
-        config.projectsData = projectsData;
-        config.lastScanTime = Date.now();
-        await this.saveConfig(config);
+    /**
+     * Remove the colors of all projects of a folder group. Returns the ids of the projects whose color changed.
+     */
+    public async clearGroupColors(groupKey: string): Promise<string[]> {
+        const projects = (this.getConfig().projectsData?.[groupKey] || []).filter(project => project.color);
+        const changedIds: string[] = [];
+        for (const project of projects) {
+            if (await this.setProjectColor(project.id, undefined)) {
+                changedIds.push(project.id);
+            }
+        }
+        return changedIds;
+    }
+
+    /**
+     * Indent edits like the rest of the file
+     */
+    private getFormattingOptions(text: string): jsonc.FormattingOptions {
+        const indentation = /^([ \t]+)\S/m.exec(text)?.[1];
+        return {
+            insertSpaces: !indentation?.startsWith('\t'),
+            tabSize: indentation && !indentation.startsWith('\t') ? indentation.length : 4,
+            eol: text.includes('\r\n') ? '\r\n' : '\n'
+        };
+    }
+
+    /**
+     * Parse a settings or workspace file, which may contain comments and trailing commas like
+     * every VS Code settings file. Returns undefined for a missing file.
+     */
+    private parseJsonc(content: string | undefined): unknown {
+        if (content === undefined) {
+            return undefined;
+        }
+        const errors: jsonc.ParseError[] = [];
+        const value = jsonc.parse(content, errors, { allowTrailingComma: true });
+        if (errors.length > 0 && value === undefined) {
+            throw new Error(`Invalid JSON: ${jsonc.printParseErrorCode(errors[0].error)} at offset ${errors[0].offset}`);
+        }
+        return value;
+    }
+
+    /**
+     * Register a detector that recognizes languages, frameworks or package managers of projects.
+     * It is used from the next scan on.
+     */
+    public registerDetector(detector: ProjectDetector): vscode.Disposable {
+        return this.detectors.register(detector);
+    }
+
+    /**
+     * Run the registered detectors against a project
+     */
+    public detectProjectMetadata(projectPath: string): Promise<ProjectMetadata> {
+        return this.detectors.detect(projectPath);
+    }
+
+    /**
+     * Read a text file, resolving to undefined when it does not exist
+     */
+    private async readFileIfExists(filePath: string): Promise<string | undefined> {
+        try {
+            return await fs.promises.readFile(filePath, 'utf-8');
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return undefined;
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Change how a base folder maps its folders to groups and projects
+     */
+    public async setBaseFolderLayout(name: string, layout: LayoutRules): Promise<void> {
+        const config = this.getConfig();
+        const baseFolder = (config.baseFolders || []).find(folder => folder.name === name);
+        if (!baseFolder) {
+            throw new Error(`Base folder not found: ${name}`);
+        }
+
+        baseFolder.layout = layout;
+        await this.saveConfig(config, `Change the layout of "${name}"`);
+    }
+
+    /**
+     * Save whether a group is expanded, groups are collapsed unless saved as expanded
+     */
+    public async setGroupExpanded(groupKey: string, expanded: boolean): Promise<void> {
+        const config = this.getConfig();
+        if ((config.groupStates?.[groupKey] === true) === expanded) {
+            return;
+        }
+        config.groupStates = { ...config.groupStates, [groupKey]: expanded };
+        await this.saveConfig(config);
+        this.onDidChangeGroupStateEmitter.fire({ groupKey: groupKey, expanded: expanded });
+    }
+
+    /**
+     * Hide a project from the dashboard, it is skipped by every following scan
+     */
+    public async hideProject(projectId: string): Promise<void> {
+        const config = this.getConfig();
+        const hiddenProjects = new Set(config.hiddenProjects || []);
+        hiddenProjects.add(projectId);
+        config.hiddenProjects = [...hiddenProjects];
+
+        // Drop the project from the scanned data right away
+        if (config.projectsData) {
+            for (const groupKey of Object.keys(config.projectsData)) {
+                config.projectsData[groupKey] = config.projectsData[groupKey].filter(project => project.id !== projectId);
+            }
+        }
+
+        await this.saveConfig(config, `Hide ${projectId}`);
+    }
+
+    /**
+     * Show previously hidden projects again on the next scan
+     */
+    public async unhideProjects(projectIds: string[]): Promise<void> {
+        const config = this.getConfig();
+        config.hiddenProjects = (config.hiddenProjects || []).filter(projectId => !projectIds.includes(projectId));
+        await this.saveConfig(config, 'Show hidden projects');
+    }
+
+    /**
+     * Find a scanned project by its id
+     */
+    public findProject(config: ProjectConfig, projectId: string): ProjectInfo | undefined {
+        const groupKey = projectId.substring(0, projectId.lastIndexOf('/'));
+        return config.projectsData?.[groupKey]?.find(project => project.id === projectId);
+    }
+
+    /**
+     * Find the scanned project containing a folder, e.g. a folder opened in a window.
+     * Returns undefined when the folder is not below a base folder.
+     */
+    public findProjectIdByPath(folderPath: string): string | undefined {
+        const config = this.getConfig();
+        for (const baseFolder of config.baseFolders || []) {
+            const relativePath = path.relative(baseFolder.path, folderPath);
+            if (!relativePath || relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+                continue;
+            }
+
+            // Folders inside a project count for the project
+            const segments = relativePath.split(path.sep);
+            for (let length = segments.length; length > 0; length--) {
+                const projectId = this.getGroupKey(baseFolder.name, segments.slice(0, length).join('/'));
+                if (this.findProject(config, projectId)) {
+                    return projectId;
+                }
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Record that a project has been opened
+     */
+    public async recordProjectOpen(projectId: string): Promise<void> {
+        const config = this.getConfig();
+        const projectUsage = config.projectUsage || {};
+        const usage = projectUsage[projectId];
+        projectUsage[projectId] = {
+            lastOpened: Date.now(),
+            openCount: (usage?.openCount || 0) + 1
+        };
+        config.projectUsage = projectUsage;
+        await this.saveConfig(config);
+    }
+
+    /**
+     * Record a folder opened outside the dashboard, e.g. through File > Open Recent.
+     * Folders that do not belong to a project are ignored, as are windows opened by the dashboard itself.
+     */
+    public async recordFolderOpen(folderPath: string): Promise<void> {
+        const projectId = this.findProjectIdByPath(folderPath);
+        if (!projectId) {
+            return;
+        }
+        const usage = this.getConfig().projectUsage?.[projectId];
+        if (usage && Date.now() - usage.lastOpened < OPEN_DEDUPLICATION_WINDOW) {
+            return;
+        }
+        await this.recordProjectOpen(projectId);
+    }
+
+    /**
+     * Star or unstar a project
+     */
+    public async setFavorite(projectId: string, favorite: boolean): Promise<void> {
+        const config = this.getConfig();
+        const favorites = (config.favorites || []).filter(id => id !== projectId);
+        config.favorites = favorite ? [...favorites, projectId] : favorites;
+        await this.saveConfig(config, favorite ? `Add ${projectId} to favorites` : `Remove ${projectId} from favorites`);
+    }
+
+    /**
+     * Get the criteria the projects of a group are sorted by, the group's own or the ones of the dashboard
+     */
+    public getProjectSort(config: ProjectConfig, groupKey?: string): SortCriterion[] {
+        return (groupKey && config.sort?.groupOverrides?.[groupKey]) || config.sort?.projects || DEFAULT_PROJECT_SORT;
+    }
+
+    /**
+     * Get the projects of a group in the order they are shown, the saved ones unless others are given
+     */
+    public getSortedProjects(
+        config: ProjectConfig,
+        groupKey: string,
+        projects: ProjectInfo[] = config.projectsData?.[groupKey] || []
+    ): ProjectInfo[] {
+        return sortProjects(projects, this.getProjectSort(config, groupKey), config.projectUsage || {}, config.customOrder?.projects?.[groupKey]);
+    }
+
+    /**
+     * Get every project in the order the dashboard shows them, base folder by base folder
+     */
+    public getOrderedProjects(config: ProjectConfig): ProjectInfo[] {
+        const projectsData = config.projectsData || {};
+        const orderedProjects: ProjectInfo[] = [];
+        for (const baseFolder of config.baseFolders || []) {
+            const rootKey = this.getGroupKey(baseFolder.name, '');
+            const childGroups = this.getChildGroups(baseFolder, projectsData);
+
+            // Projects of the base folder come before its groups, nested groups before the projects of their group
+            const addGroup = (groupKey: string) => {
+                const projects = this.getSortedProjects(config, groupKey);
+                if (groupKey === rootKey) {
+                    orderedProjects.push(...projects);
+                }
+                (childGroups[groupKey] || []).forEach(addGroup);
+                if (groupKey !== rootKey) {
+                    orderedProjects.push(...projects);
+                }
+            };
+            addGroup(rootKey);
+        }
+        return orderedProjects;
+    }
+
+    /**
+     * Sort the projects of every group, or of a single group when a group key is given.
+     * Without criteria the group is sorted like the rest of the dashboard again.
+     */
+    public async setProjectSort(criteria: SortCriterion[] | undefined, groupKey?: string): Promise<void> {
+        const config = this.getConfig();
+        const sort: SortModel = config.sort || {};
+        if (!groupKey) {
+            sort.projects = criteria;
+        } else if (criteria) {
+            sort.groupOverrides = { ...sort.groupOverrides, [groupKey]: criteria };
+        } else if (sort.groupOverrides) {
+            delete sort.groupOverrides[groupKey];
+        }
+        config.sort = sort;
+
+        const description = criteria ? `by ${describeSortCriteria(criteria)}` : 'like the dashboard';
+        await this.saveConfig(config, `Sort ${groupKey || 'projects'} ${description}`);
+    }
+
+    /**
+     * Sort the groups by name, A to Z or Z to A, or in the custom order
+     */
+    public async setGroupSort(order: 'asc' | 'desc' | 'manual'): Promise<void> {
+        const config = this.getConfig();
+        config.sort = { ...config.sort, groups: order };
+        await this.saveConfig(config, `Sort groups ${{ asc: 'A-Z', desc: 'Z-A', manual: 'in the custom order' }[order]}`);
+    }
+
+    /**
+     * Save the order of the projects of a group arranged by hand. The group is sorted in the
+     * custom order from now on, unless it already is.
+     */
+    public async setProjectOrder(groupKey: string, projectIds: string[]): Promise<void> {
+        const config = this.getConfig();
+        const customOrder = config.customOrder || {};
+        customOrder.projects = { ...customOrder.projects, [groupKey]: projectIds };
+        config.customOrder = customOrder;
+        if (this.getProjectSort(config, groupKey)[0]?.key !== 'manual') {
+            config.sort = { ...config.sort, groupOverrides: { ...config.sort?.groupOverrides, [groupKey]: [{ key: 'manual' }] } };
+        }
+        await this.saveConfig(config, `Reorder the projects of ${groupKey}`);
+    }
+
+    /**
+     * Save the order of the child groups of a group or base folder arranged by hand. Groups are
+     * shown in the custom order from now on.
+     */
+    public async setGroupOrder(parentKey: string, groupKeys: string[]): Promise<void> {
+        const config = this.getConfig();
+        const customOrder = config.customOrder || {};
+        customOrder.groups = { ...customOrder.groups, [parentKey]: groupKeys };
+        config.customOrder = customOrder;
+        config.sort = { ...config.sort, groups: 'manual' };
+        await this.saveConfig(config, `Reorder the groups of ${parentKey}`);
+    }
+
+    /**
+     * Forget the custom order and sort everything by name again. For a single group only its own
+     * custom order and sort are dropped, so it is sorted like the rest of the dashboard.
+     */
+    public async resetOrder(groupKey?: string): Promise<void> {
+        const config = this.getConfig();
+        if (!groupKey) {
+            config.sort = undefined;
+            config.customOrder = undefined;
+            await this.saveConfig(config, 'Reset the order to alphabetical');
+            return;
+        }
+
+        delete config.customOrder?.projects?.[groupKey];
+        delete config.customOrder?.groups?.[groupKey];
+        delete config.sort?.groupOverrides?.[groupKey];
+        await this.saveConfig(config, `Reset the order of ${groupKey}`);
+    }
+
+    /**
+     * Get the tags of a project, both the ones declared in its settings and the ones added on the dashboard
+     */
+    public getProjectTags(config: ProjectConfig, project: ProjectInfo): string[] {
+        return this.normalizeTags([...(project.tags || []), ...(config.projectTags?.[project.id] || [])]);
+    }
+
+    /**
+     * Get every tag in use, with the number of projects carrying it
+     */
+    public getAllTags(config: ProjectConfig): Map<string, number> {
+        const tagCounts = new Map<string, number>();
+        for (const projects of Object.values(config.projectsData || {})) {
+            for (const project of projects) {
+                for (const tag of this.getProjectTags(config, project)) {
+                    tagCounts.set(tag, (tagCounts.get(tag) || 0) + 1);
+                }
+            }
+        }
+        return new Map([...tagCounts].sort(([a], [b]) => a.localeCompare(b)));
+    }
+
+    /**
+     * Replace the tags added on the dashboard to a project
+     */
+    public async setProjectTags(projectId: string, tags: string[]): Promise<void> {
+        const config = this.getConfig();
+        const projectTags = config.projectTags || {};
+        tags = this.normalizeTags(tags);
+        if (tags.length > 0) {
+            projectTags[projectId] = tags;
+        } else {
+            delete projectTags[projectId];
+        }
+        config.projectTags = projectTags;
+        await this.saveConfig(config, `Edit the tags of ${projectId}`);
+    }
+
+    /**
+     * Trim tags and drop empty and duplicate ones, ignoring case
+     */
+    private normalizeTags(tags: string[]): string[] {
+        const normalized: string[] = [];
+        for (const tag of tags.map(tag => tag.trim()).filter(Boolean)) {
+            if (!normalized.some(existing => existing.toLowerCase() === tag.toLowerCase())) {
+                normalized.push(tag);
+            }
+        }
+        return normalized;
+    }
+
+    /**
+     * Check a custom group name is not empty and not used by another custom group
+     */
+    public validateCustomGroupName(name: string, currentName?: string): string | undefined {
+        if (!name.trim()) {
+            return 'Name cannot be empty';
+        }
+        if (name.trim() !== currentName && this.getConfig().customGroups?.some(group => group.name === name.trim())) {
+            return `A group named "${name.trim()}" already exists`;
+        }
+        return undefined;
+    }
+
+    /**
+     * Create an empty custom group
+     */
+    public async createCustomGroup(name: string): Promise<CustomGroup> {
+        const validationError = this.validateCustomGroupName(name);
+        if (validationError) {
+            throw new Error(validationError);
+        }
+
+        const config = this.getConfig();
+        const customGroup: CustomGroup = { name: name.trim(), projects: [] };
+        config.customGroups = [...(config.customGroups || []), customGroup];
+        await this.saveConfig(config, `Create group "${customGroup.name}"`);
+        return customGroup;
+    }
+
+    /**
+     * Rename a custom group
+     */
+    public async renameCustomGroup(name: string, newName: string): Promise<void> {
+        const validationError = this.validateCustomGroupName(newName, name);
+        if (validationError) {
+            throw new Error(validationError);
+        }
+
+        const config = this.getConfig();
+        this.getCustomGroup(config, name).name = newName.trim();
+        await this.saveConfig(config, `Rename group "${name}" to "${newName.trim()}"`);
+    }
+
+    /**
+     * Delete a custom group, its projects stay in their folder groups
+     */
+    public async deleteCustomGroup(name: string): Promise<void> {
+        const config = this.getConfig();
+        config.customGroups = (config.customGroups || []).filter(group => group.name !== name);
+        await this.saveConfig(config, `Delete group "${name}"`);
+    }
+
+    /**
+     * Remember whether a custom group is collapsed
+     */
+    public async setCustomGroupCollapsed(name: string, collapsed: boolean): Promise<void> {
+        const config = this.getConfig();
+        this.getCustomGroup(config, name).collapsed = collapsed;
+        await this.saveConfig(config);
+    }
+
+    /**
+     * Move a project between the favorites and custom groups. Without a source the project is added
+     * to the target, without a target it is removed from the source.
+     */
+    public async moveProject(projectId: string, from: VirtualGroupRef | undefined, to: VirtualGroupRef | undefined): Promise<void> {
+        const config = this.getConfig();
+
+        const projectIds = (ref: VirtualGroupRef) => ref.kind === 'favorites'
+            ? (config.favorites = config.favorites || [])
+            : this.getCustomGroup(config, ref.name).projects;
+
+        if (from) {
+            const source = projectIds(from);
+            const index = source.indexOf(projectId);
+            if (index !== -1) {
+                source.splice(index, 1);
+            }
+        }
+        if (to) {
+            const target = projectIds(to);
+            if (!target.includes(projectId)) {
+                target.push(projectId);
+            }
+        }
+
+        const describeRef = (ref: VirtualGroupRef) => ref.kind === 'favorites' ? 'favorites' : `"${ref.name}"`;
+        await this.saveConfig(config, to ? `Move ${projectId} to ${describeRef(to)}` : `Remove ${projectId} from ${from ? describeRef(from) : 'favorites'}`);
+    }
+
+    /**
+     * Find a custom group by name
+     */
+    private getCustomGroup(config: ProjectConfig, name: string): CustomGroup {
+        const customGroup = config.customGroups?.find(group => group.name === name);
+        if (!customGroup) {
+            throw new Error(`Custom group not found: ${name}`);
+        }
+        return customGroup;
+    }
+
+    /**
+     * Save a project set, replacing the set with the same name
+     */
+    public async saveProjectSet(name: string, projectIds: string[]): Promise<ProjectSet> {
+        const config = this.getConfig();
+        const projectSet: ProjectSet = { name: name.trim(), projects: [...new Set(projectIds)] };
+        const projectSets = config.projectSets || [];
+        const index = projectSets.findIndex(existing => existing.name === projectSet.name);
+        if (index === -1) {
+            projectSets.push(projectSet);
+        } else {
+            projectSets[index] = projectSet;
+        }
+        config.projectSets = projectSets;
+        await this.saveConfig(config, `Save project set "${name}"`);
+        return projectSet;
+    }
+
+    public async deleteProjectSet(name: string): Promise<void> {
+        const config = this.getConfig();
+        config.projectSets = (config.projectSets || []).filter(projectSet => projectSet.name !== name);
+        await this.saveConfig(config, `Delete project set "${name}"`);
+    }
+
+    /**
+     * Write the .code-workspace file of a project set to the extension's storage. Projects that
+     * are no longer on the dashboard are left out.
+     */
+    public async writeProjectSetWorkspace(projectSet: ProjectSet): Promise<vscode.Uri> {
+        const config = this.getConfig();
+        const folders = projectSet.projects
+            .map(projectId => this.findProject(config, projectId))
+            .filter((project): project is ProjectInfo => !!project && !project.workspaceFile)
+            .map(project => ({ name: project.name, path: this.resolvePath(project.id) }));
+        if (folders.length === 0) {
+            throw new Error(`None of the projects of "${projectSet.name}" are on the dashboard anymore`);
+        }
+
+        const fileName = `${projectSet.name.replace(/[^\w.-]+/g, '-')}.code-workspace`;
+        const workspaceUri = vscode.Uri.joinPath(this.context.globalStorageUri, 'workspaces', fileName);
+        const content = JSON.stringify({ folders: folders, settings: {} }, null, 2);
+        await vscode.workspace.fs.writeFile(workspaceUri, Buffer.from(content, 'utf8'));
+        return workspaceUri;
+    }
+
+    /**
+     * Get the scanner that applies the layout rules of the base folders
+     */
+    public getScanner(): ProjectScanner {
+        return this.scanner;
+    }
+
+    /**
+     * Scan a single group folder of a base folder, including its nested groups
+     */
+    public scanGroup(baseFolder: BaseFolder, groupName: string, options?: ScanOptions): Promise<ProjectsData> {
+        return this.scanner.scanGroup(baseFolder, groupName, options);
+    }
+
+    /**
+     * Replace a group and its nested groups with freshly scanned data, keeping the order of the other groups
+     */
+    public mergeScannedGroup(config: ProjectConfig, groupKey: string, scannedGroups: ProjectsData): void {
+        const projectsData: ProjectsData = {};
+        let inserted = false;
+        for (const key of Object.keys(config.projectsData || {})) {
+            if (!this.isGroupOrDescendant(key, groupKey)) {
+                projectsData[key] = config.projectsData![key];
+            } else if (!inserted) {
+                Object.assign(projectsData, scannedGroups);
+                inserted = true;
+            }
+        }
+        if (!inserted) {
+            Object.assign(projectsData, scannedGroups);
+        }
+
+        config.projectsData = projectsData;
+    }
+
+    /**
+     * Rescan a group folder and its nested groups and save the result
+     */
+    public async refreshGroup(groupKey: string): Promise<ProjectConfig> {
+        const { baseFolderName, relativePath: groupName } = this.splitKey(groupKey);
+        const baseFolder = this.getBaseFolder(baseFolderName);
+        if (!baseFolder) {
+            throw new Error(`Base folder not found: ${baseFolderName}`);
+        }
+
+        // Ensure the group folder exists
+        const groupPath = path.join(baseFolder.path, ...groupName.split('/').filter(Boolean));
+        if (!await this.folderExists(groupPath)) {
+            throw new Error(`Group folder does not exist: ${groupName}`);
+        }
+
+        const scannedGroups = await this.scanGroup(baseFolder, groupName);
+
+        // Read the config again, it may have been saved while scanning
+        const config = this.getConfig();
+        this.mergeScannedGroup(config, groupKey, scannedGroups);
+        await this.saveConfig(config);
 
         return config;
     }
+
+    /**
+     * Re-read the color and tags of a single project from its settings. Returns true when they changed.
+     */
+    public async refreshProjectSettings(projectId: string): Promise<boolean> {
+        const config = this.getConfig();
+        const groupKey = projectId.substring(0, projectId.lastIndexOf('/'));
+        const project = config.projectsData?.[groupKey]?.find(candidate => candidate.id === projectId);
+        if (!project) {
+            return false;
+        }
+
+        const settings = await this.readProjectSettings(this.resolvePath(projectId));
+        if (settings.color === project.color && JSON.stringify(settings.tags) === JSON.stringify(project.tags)) {
+            return false;
+        }
+
+        // Apply the settings to the latest config, it may have been saved while reading
+        const latestConfig = this.getConfig();
+        const latestProject = latestConfig.projectsData?.[groupKey]?.find(candidate => candidate.id === projectId);
+        if (!latestProject) {
+            return false;
+        }
+        latestProject.color = settings.color;
+        latestProject.tags = settings.tags;
+        await this.saveConfig(latestConfig);
+        return true;
+    }
+
+    /**
+     * Check whether a folder exists without blocking the extension host
+     */
+    private async folderExists(folderPath: string): Promise<boolean> {
+        try {
+            return (await fs.promises.stat(folderPath)).isDirectory();
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * Scan every base folder and update the config
+     */
+    public async scanProjects(options: ScanProjectsOptions = {}): Promise<ProjectConfig> {
+        const baseFolders = this.getBaseFolders();
+
+        if (baseFolders.length === 0) {
+            throw new Error('Base projects folder not set');
+        }
+
+        // Ensure all folders exist
+        const existing = await Promise.all(baseFolders.map(folder => this.folderExists(folder.path)));
+        const missingFolders = baseFolders.filter((_, index) => !existing[index]);
+        if (missingFolders.length > 0) {
+            throw new Error(`Base projects folder does not exist: ${missingFolders.map(folder => folder.path).join(', ')}`);
+        }
+
+        // Scan the base folders in parallel, each according to its layout rules
+        const share = 100 / baseFolders.length;
+        const results = await Promise.all(baseFolders.map(baseFolder => {
+            let reported = 0;
+            return this.scanner.scanBaseFolder(baseFolder, {
+                token: options.token,
+                onGroupScanned: (groupKey, projectsData) => options.onGroupScanned?.(baseFolder, groupKey, projectsData),
+                onProgress: (completed, total) => {
+                    const increment = share * completed / total - reported;
+                    reported += increment;
+                    options.progress?.report({ message: `${baseFolder.name} (${completed}/${total})`, increment: increment });
+                }
+            });
+        }));
+
+        const projectsData: ProjectsData = {};
+        for (const result of results) {
+            Object.assign(projectsData, result);
+        }
+
+        // Update the latest config, base folders keep their order
+        const config = this.getConfig();
+        config.projectsData = projectsData;
+        config.lastScanTime = Date.now();
+        await this.saveConfig(config);
+
+        return config;
+    }
+}
+
+function isPlainObject(value: unknown): value is { [key: string]: unknown } {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
 }
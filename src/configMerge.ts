@@ -0,0 +1,117 @@
+import { isDeepStrictEqual } from 'util';
+import { ProjectConfig } from './configManager';
+
+/**
+ * Which side wins when both sides changed the same value
+ */
+export type MergePreference = 'local' | 'incoming';
+
+/**
+ * Three-way merge of two versions of a JSON value changed independently from a common base.
+ * Changes made on one side only are kept. Lists of strings, e.g. favorites, are merged item by
+ * item and lists of named objects, e.g. custom groups, by name. Objects are merged key by key,
+ * anything else changed on both sides is taken from the preferred side.
+ */
+export function mergeValues(base: unknown, local: unknown, incoming: unknown, prefer: MergePreference): unknown {
+    if (isDeepStrictEqual(local, incoming) || isDeepStrictEqual(incoming, base)) {
+        return local;
+    }
+    if (isDeepStrictEqual(local, base)) {
+        return incoming;
+    }
+
+    if (Array.isArray(local) && Array.isArray(incoming)) {
+        const baseList = Array.isArray(base) ? base : [];
+        if ([...local, ...incoming].every(item => typeof item === 'string')) {
+            return mergeStringLists(baseList, local, incoming);
+        }
+        if ([...local, ...incoming].every(isNamedObject)) {
+            return mergeNamedLists(baseList.filter(isNamedObject), local, incoming, prefer);
+        }
+    } else if (isPlainObject(local) && isPlainObject(incoming)) {
+        const baseObject = isPlainObject(base) ? base : {};
+        const merged: { [key: string]: unknown } = {};
+        for (const key of new Set([...Object.keys(local), ...Object.keys(incoming)])) {
+            const value = mergeValues(baseObject[key], local[key], incoming[key], prefer);
+            if (value !== undefined) {
+                merged[key] = value;
+            }
+        }
+        return merged;
+    }
+
+    return prefer === 'local' ? local : incoming;
+}
+
+/**
+ * How an imported config is combined with the current one
+ */
+export type ImportStrategy = 'replace' | 'mergePreferLocal' | 'mergePreferImported';
+
+/**
+ * Combine the given top level parts of an imported config with the current config, the other
+ * parts are kept as they are
+ */
+export function mergeConfigParts(
+    local: ProjectConfig,
+    imported: ProjectConfig,
+    keys: (keyof ProjectConfig)[],
+    strategy: ImportStrategy
+): ProjectConfig {
+    const merged: ProjectConfig = { ...local };
+    for (const key of keys) {
+        if (imported[key] === undefined) {
+            continue;
+        }
+        const value = strategy === 'replace'
+            ? imported[key]
+            : mergeValues(undefined, local[key], imported[key], strategy === 'mergePreferLocal' ? 'local' : 'incoming');
+        Object.assign(merged, { [key]: value });
+    }
+
+    // Imported base folders map the synced base folders of the same name
+    const baseFolderNames = (merged.baseFolders || []).map(folder => folder.name);
+    merged.unmappedBaseFolders = local.unmappedBaseFolders?.filter(folder => !baseFolderNames.includes(folder.name));
+    return merged;
+}
+
+/**
+ * Keep the items of both lists that were not removed on either side, in the local order
+ * with new incoming items appended
+ */
+function mergeStringLists(base: unknown[], local: string[], incoming: string[]): string[] {
+    const isRemoved = (item: string) => base.includes(item) && (!local.includes(item) || !incoming.includes(item));
+    return [...new Set([...local, ...incoming])].filter(item => !isRemoved(item));
+}
+
+/**
+ * Merge lists of objects identified by their name, objects present on both sides are merged
+ */
+function mergeNamedLists(
+    base: NamedObject[],
+    local: NamedObject[],
+    incoming: NamedObject[],
+    prefer: MergePreference
+): NamedObject[] {
+    const find = (list: NamedObject[], name: string) => list.find(item => item.name === name);
+    const names = mergeStringLists(base.map(item => item.name), local.map(item => item.name), incoming.map(item => item.name));
+
+    return names.map(name => {
+        const localItem = find(local, name);
+        const incomingItem = find(incoming, name);
+        if (!localItem || !incomingItem) {
+            return (localItem || incomingItem)!;
+        }
+        return mergeValues(find(base, name), localItem, incomingItem, prefer) as NamedObject;
+    });
+}
+
+type NamedObject = { name: string; [key: string]: unknown };
+
+function isNamedObject(value: unknown): value is NamedObject {
+    return isPlainObject(value) && typeof value.name === 'string';
+}
+
+function isPlainObject(value: unknown): value is { [key: string]: unknown } {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
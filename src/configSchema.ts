@@ -0,0 +1,253 @@
+import { SORT_KEYS } from './projectSort';
+
+/**
+ * Version of the configuration shape written by this version of the extension. Configs without
+ * a `schemaVersion` were written by 0.0.2 or before the version was introduced.
+ */
+export const CONFIG_SCHEMA_VERSION = 1;
+
+/**
+ * The subset of JSON Schema used to describe the configuration
+ */
+export interface JsonSchema {
+    type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+    properties?: { [name: string]: JsonSchema };
+    required?: string[];
+    additionalProperties?: JsonSchema;
+    items?: JsonSchema;
+    enum?: unknown[];
+    pattern?: string;
+    minimum?: number;
+}
+
+/**
+ * An invalid value in a configuration, `path` leads from the root of the config to the value
+ */
+export interface ConfigProblem {
+    path: (string | number)[];
+    message: string;
+}
+
+const stringList: JsonSchema = { type: 'array', items: { type: 'string' } };
+
+const layoutRules: JsonSchema = {
+    type: 'object',
+    properties: {
+        mode: { enum: ['groups', 'flat', 'markers'] },
+        maxDepth: { type: 'integer', minimum: 1 },
+        markers: stringList
+    }
+};
+
+const baseFolderName: JsonSchema = { type: 'string', pattern: '^[^/]+$' };
+
+const projectInfo: JsonSchema = {
+    type: 'object',
+    required: ['name', 'id'],
+    properties: {
+        name: { type: 'string' },
+        id: { type: 'string' },
+        color: { type: 'string' },
+        git: {
+            type: 'object',
+            required: ['dirty'],
+            properties: {
+                branch: { type: 'string' },
+                upstream: { type: 'string' },
+                ahead: { type: 'integer', minimum: 0 },
+                behind: { type: 'integer', minimum: 0 },
+                dirty: { type: 'integer', minimum: 0 },
+                lastCommitDate: { type: 'number' },
+                lastCommitSubject: { type: 'string' }
+            }
+        },
+        languages: stringList,
+        frameworks: stringList,
+        packageManager: { type: 'string' },
+        tags: stringList,
+        workspaceFile: { type: 'boolean' },
+        size: { type: 'number', minimum: 0 },
+        lastModified: { type: 'number' }
+    }
+};
+
+const projectList: JsonSchema = {
+    type: 'object',
+    required: ['name', 'projects'],
+    properties: {
+        name: { type: 'string' },
+        projects: stringList,
+        collapsed: { type: 'boolean' }
+    }
+};
+
+const sortCriteria: JsonSchema = {
+    type: 'array',
+    items: {
+        type: 'object',
+        required: ['key'],
+        properties: { key: { enum: [...SORT_KEYS] }, descending: { type: 'boolean' } }
+    }
+};
+
+/**
+ * JSON Schema of the current configuration, see `ProjectConfig`. Properties it does not know
+ * are allowed, so configs written by a newer version still load.
+ */
+export const CONFIG_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        schemaVersion: { type: 'integer', minimum: 0 },
+        baseFolders: {
+            type: 'array',
+            items: {
+                type: 'object',
+                required: ['name', 'path'],
+                properties: { name: baseFolderName, path: { type: 'string' }, layout: layoutRules }
+            }
+        },
+        unmappedBaseFolders: {
+            type: 'array',
+            items: {
+                type: 'object',
+                required: ['name'],
+                properties: { name: baseFolderName, layout: layoutRules }
+            }
+        },
+        projectsData: { type: 'object', additionalProperties: { type: 'array', items: projectInfo } },
+        lastScanTime: { type: 'number' },
+        groupStates: { type: 'object', additionalProperties: { type: 'boolean' } },
+        hiddenProjects: stringList,
+        projectUsage: {
+            type: 'object',
+            additionalProperties: {
+                type: 'object',
+                required: ['lastOpened', 'openCount'],
+                properties: { lastOpened: { type: 'number' }, openCount: { type: 'integer', minimum: 0 } }
+            }
+        },
+        favorites: stringList,
+        projectTags: { type: 'object', additionalProperties: stringList },
+        customGroups: { type: 'array', items: projectList },
+        projectSets: { type: 'array', items: projectList },
+        sort: {
+            type: 'object',
+            properties: {
+                projects: sortCriteria,
+                groups: { enum: ['asc', 'desc', 'manual'] },
+                groupOverrides: { type: 'object', additionalProperties: sortCriteria }
+            }
+        },
+        customOrder: {
+            type: 'object',
+            properties: {
+                groups: { type: 'object', additionalProperties: stringList },
+                projects: { type: 'object', additionalProperties: stringList }
+            }
+        }
+    }
+};
+
+/**
+ * JSON Schema of the synced part of the configuration, its base folders have no path
+ */
+export const SYNCED_CONFIG_SCHEMA: JsonSchema = {
+    ...CONFIG_SCHEMA,
+    properties: { ...CONFIG_SCHEMA.properties, baseFolders: CONFIG_SCHEMA.properties!.unmappedBaseFolders }
+};
+
+/**
+ * Validate a value against a schema and list every invalid value found
+ */
+export function validateConfig(value: unknown, schema: JsonSchema = CONFIG_SCHEMA, path: (string | number)[] = []): ConfigProblem[] {
+    if (schema.enum && !schema.enum.some(allowed => allowed === value)) {
+        return [{ path: path, message: `must be one of ${schema.enum.map(allowed => JSON.stringify(allowed)).join(', ')}` }];
+    }
+    if (schema.type && getType(value) !== schema.type && !(schema.type === 'number' && getType(value) === 'integer')) {
+        return [{ path: path, message: `must be ${/^[aeiou]/.test(schema.type) ? 'an' : 'a'} ${schema.type}` }];
+    }
+    if (schema.pattern && typeof value === 'string' && !new RegExp(schema.pattern).test(value)) {
+        return [{ path: path, message: `must match ${schema.pattern}` }];
+    }
+    if (schema.minimum !== undefined && typeof value === 'number' && value < schema.minimum) {
+        return [{ path: path, message: `must be at least ${schema.minimum}` }];
+    }
+
+    if (Array.isArray(value)) {
+        return schema.items ? value.flatMap((item, index) => validateConfig(item, schema.items, [...path, index])) : [];
+    }
+    if (getType(value) !== 'object') {
+        return [];
+    }
+
+    const object = value as { [name: string]: unknown };
+    const missing = (schema.required || []).filter(name => object[name] === undefined);
+    if (missing.length > 0) {
+        return [{ path: path, message: `is missing ${missing.join(', ')}` }];
+    }
+    return Object.keys(object).flatMap(name => {
+        const propertySchema = schema.properties?.[name] || schema.additionalProperties;
+        return propertySchema && object[name] !== undefined ? validateConfig(object[name], propertySchema, [...path, name]) : [];
+    });
+}
+
+/**
+ * Copy a config without the invalid values, so one broken entry does not hide the whole config.
+ * Invalid array items are left out, invalid properties are dropped.
+ */
+export function removeInvalidValues<T>(value: T, problems: ConfigProblem[]): T {
+    const invalidPaths = new Set(problems.map(problem => JSON.stringify(problem.path)));
+
+    const copy = (current: unknown, path: (string | number)[]): unknown => {
+        if (Array.isArray(current)) {
+            return current
+                .map((item, index) => ({ item: item, itemPath: [...path, index] }))
+                .filter(({ itemPath }) => !invalidPaths.has(JSON.stringify(itemPath)))
+                .map(({ item, itemPath }) => copy(item, itemPath));
+        }
+        if (getType(current) === 'object') {
+            return Object.fromEntries(Object.entries(current as object)
+                .filter(([name]) => !invalidPaths.has(JSON.stringify([...path, name])))
+                .map(([name, property]) => [name, copy(property, [...path, name])]));
+        }
+        return current;
+    };
+
+    return (invalidPaths.has('[]') ? {} : copy(value, [])) as T;
+}
+
+/**
+ * Format the path of a problem, e.g. `config.projectsData["work/api"][0].name`
+ */
+export function formatConfigPath(path: (string | number)[]): string {
+    return path.reduce<string>((formatted, segment) => {
+        if (typeof segment === 'number') {
+            return `${formatted}[${segment}]`;
+        }
+        return /^[A-Za-z_$][\w$]*$/.test(segment) ? `${formatted}.${segment}` : `${formatted}[${JSON.stringify(segment)}]`;
+    }, 'config');
+}
+
+/**
+ * Describe problems in one line, e.g. "config.favorites[2] must be a string", shortened to the first few
+ */
+export function describeConfigProblems(problems: ConfigProblem[], limit: number = 5): string {
+    const lines = problems.slice(0, limit).map(problem => `${formatConfigPath(problem.path)} ${problem.message}`);
+    if (problems.length > limit) {
+        lines.push(`and ${problems.length - limit} more`);
+    }
+    return lines.join('; ');
+}
+
+function getType(value: unknown): string {
+    if (Array.isArray(value)) {
+        return 'array';
+    }
+    if (value === null) {
+        return 'null';
+    }
+    if (typeof value === 'number') {
+        return Number.isInteger(value) ? 'integer' : 'number';
+    }
+    return typeof value;
+}
@@ -2,11 +2,29 @@
 // Import the module and reference it with the alias vscode in your code below
 import * as vscode from 'vscode';
 import { ConfigManager } from './configManager';
-import { ProjectDashboard } from './projectDashboard';
+import { OpenMode, ProjectDashboard } from './projectDashboard';
+import { ProjectSwitcher } from './projectSwitcher';
+import { ProjectTree, ProjectTreeNode } from './projectTree';
+import { ColorIcons } from './colorIcons';
+import { ProjectWatcher } from './projectWatcher';
+import { ConfigFileSync } from './configFileSync';
+import { ProjectDetector } from './projectDetectors';
+
+export type { DetectionContext, ProjectDetector, ProjectMetadata } from './projectDetectors';
+
+/**
+ * API returned from `activate`, available to other extensions through `vscode.extensions.getExtension(...).exports`
+ */
+export interface ProjectDashboardApi {
+	/**
+	 * Register a detector for languages, frameworks or package managers. It is used from the next scan on.
+	 */
+	registerDetector(detector: ProjectDetector): vscode.Disposable;
+}
 
 // This method is called when your extension is activated
 // Your extension is activated the very first time the command is executed
-export function activate(context: vscode.ExtensionContext) {
+export function activate(context: vscode.ExtensionContext): ProjectDashboardApi {
 	// Use the console to output diagnostic information (console.log) and errors (console.error)
 	// This line of code will only be executed once when your extension is activated
 	console.log('Congratulations, your extension "syncable-project-dashboard" is now active!');
@@ -17,6 +35,45 @@ export function activate(context: vscode.ExtensionContext) {
 	// Initialize the project dashboard
 	const dashboard = new ProjectDashboard(configManager, context);
 
+	// Keep the projects data up to date with changes on disk
+	const projectWatcher = new ProjectWatcher(configManager);
+	const projectsChangeListener = projectWatcher.onDidChangeProjects(event => dashboard.applyProjectsChange(event));
+
+	// Keep the synced configuration in a JSON or YAML file when one is linked
+	const configFileSync = new ConfigFileSync(configManager, context);
+	const configFileChangeListener = configFileSync.onDidApplyFileChanges(() => dashboard.reload());
+	const linkConfigFileCommand = vscode.commands.registerCommand('syncable-project-dashboard.linkConfigFile', () => {
+		configFileSync.link().catch((err: Error) => {
+			vscode.window.showErrorMessage(`Failed to link the configuration file: ${err}`);
+		});
+	});
+	const unlinkConfigFileCommand = vscode.commands.registerCommand('syncable-project-dashboard.unlinkConfigFile', () => {
+		configFileSync.unlink().catch((err: Error) => {
+			vscode.window.showErrorMessage(`Failed to unlink the configuration file: ${err}`);
+		});
+	});
+
+	// Register the history commands, every change made on the dashboard can be undone
+	const undoLastChangeCommand = vscode.commands.registerCommand('syncable-project-dashboard.undoLastChange', () => {
+		dashboard.undoLastChange();
+	});
+	const restoreFromBackupCommand = vscode.commands.registerCommand('syncable-project-dashboard.restoreFromBackup', () => {
+		dashboard.restoreFromBackup();
+	});
+
+	// Count projects opened outside the dashboard, e.g. through File > Open Recent
+	const recordFolderOpens = (folders: readonly vscode.WorkspaceFolder[]) => {
+		for (const folder of folders) {
+			if (folder.uri.scheme === 'file') {
+				configManager.recordFolderOpen(folder.uri.fsPath).catch(error => {
+					console.error(`Error recording the open of ${folder.uri.fsPath}:`, error);
+				});
+			}
+		}
+	};
+	recordFolderOpens(vscode.workspace.workspaceFolders || []);
+	const workspaceFoldersListener = vscode.workspace.onDidChangeWorkspaceFolders(event => recordFolderOpens(event.added));
+
 	// Register the showDashboard command
 	const showDashboardCommand = vscode.commands.registerCommand('syncable-project-dashboard.showDashboard', () => {
 		dashboard.open().catch((err: Error) => {
@@ -24,6 +81,140 @@ export function activate(context: vscode.ExtensionContext) {
 		});
 	});
 
+	// Register the switchProject command, a Quick Pick over every scanned project
+	const colorIcons = new ColorIcons(context);
+	const projectSwitcher = new ProjectSwitcher(configManager, dashboard, colorIcons);
+	const switchProjectCommand = vscode.commands.registerCommand('syncable-project-dashboard.switchProject', () => {
+		projectSwitcher.show().catch((err: Error) => {
+			vscode.window.showErrorMessage(`Failed to show the project switcher: ${err}`);
+		});
+	});
+
+	// Show the projects in the activity bar too, the tree's inline actions use the commands below
+	const projectTree = new ProjectTree(configManager, colorIcons);
+	const openProjectCommand = vscode.commands.registerCommand('syncable-project-dashboard.openProject', (context?: { projectId?: string }) => {
+		if (context?.projectId) {
+			dashboard.handleOpenProject(context.projectId).catch((err: Error) => {
+				vscode.window.showErrorMessage(`Failed to open project: ${err}`);
+			});
+		} else {
+			projectSwitcher.show().catch((err: Error) => {
+				vscode.window.showErrorMessage(`Failed to show the project switcher: ${err}`);
+			});
+		}
+	});
+	const refreshGroupCommand = vscode.commands.registerCommand('syncable-project-dashboard.refreshGroup', (node?: ProjectTreeNode) => {
+		if (node?.kind === 'group') {
+			dashboard.refreshGroup(node.groupKey);
+		}
+	});
+	// Register a command for each way to open a project, they are also in the context menus
+	const openModeCommands = ([
+		['openProjectInCurrentWindow', 'currentWindow'],
+		['openProjectInNewWindow', 'newWindow'],
+		['addProjectToWorkspace', 'addToWorkspace'],
+		['openProjectInTerminal', 'terminal'],
+		['revealProjectInOS', 'revealInOS']
+	] as [string, OpenMode][]).map(([command, mode]) => vscode.commands.registerCommand(`syncable-project-dashboard.${command}`, (context?: { projectId?: string }) => {
+		dashboard.openProject(context?.projectId, mode);
+	}));
+	// Register the project set commands, sets are created from a multi-selection on the dashboard too
+	const openProjectsAsWorkspaceCommand = vscode.commands.registerCommand('syncable-project-dashboard.openProjectsAsWorkspace', () => {
+		dashboard.openProjectsAsWorkspace();
+	});
+	const openProjectSetCommand = vscode.commands.registerCommand('syncable-project-dashboard.openProjectSet', () => {
+		dashboard.openProjectSet();
+	});
+	const deleteProjectSetCommand = vscode.commands.registerCommand('syncable-project-dashboard.deleteProjectSet', () => {
+		dashboard.deleteProjectSet();
+	});
+	const rescanProjectsCommand = vscode.commands.registerCommand('syncable-project-dashboard.rescanProjects', () => {
+		dashboard.rescanProjects();
+	});
+
+	// Register the project visibility commands, hideProject is invoked from the webview context menu
+	const hideProjectCommand = vscode.commands.registerCommand('syncable-project-dashboard.hideProject', (context?: { projectId?: string }) => {
+		if (context?.projectId) {
+			dashboard.hideProject(context.projectId);
+		}
+	});
+	const showHiddenProjectsCommand = vscode.commands.registerCommand('syncable-project-dashboard.showHiddenProjects', () => {
+		dashboard.showHiddenProjects();
+	});
+
+	// Register the favorites and custom group commands, the project ones are also in the webview context menu
+	const addToFavoritesCommand = vscode.commands.registerCommand('syncable-project-dashboard.addToFavorites', (context?: { projectId?: string }) => {
+		dashboard.addToFavorites(context?.projectId);
+	});
+	const removeFromFavoritesCommand = vscode.commands.registerCommand('syncable-project-dashboard.removeFromFavorites', (context?: { projectId?: string }) => {
+		dashboard.removeFromFavorites(context?.projectId);
+	});
+	const addToGroupCommand = vscode.commands.registerCommand('syncable-project-dashboard.addToGroup', (context?: { projectId?: string }) => {
+		dashboard.addToCustomGroup(context?.projectId);
+	});
+	const removeFromGroupCommand = vscode.commands.registerCommand('syncable-project-dashboard.removeFromGroup', (context?: { projectId?: string; customGroup?: string }) => {
+		dashboard.removeFromCustomGroup(context?.projectId, context?.customGroup);
+	});
+	const editTagsCommand = vscode.commands.registerCommand('syncable-project-dashboard.editTags', (context?: { projectId?: string }) => {
+		dashboard.editTags(context?.projectId);
+	});
+	const setProjectColorCommand = vscode.commands.registerCommand('syncable-project-dashboard.setProjectColor', (context?: { projectId?: string }) => {
+		dashboard.setProjectColor(context?.projectId);
+	});
+	const clearProjectColorCommand = vscode.commands.registerCommand('syncable-project-dashboard.clearProjectColor', (context?: { projectId?: string }) => {
+		dashboard.clearProjectColor(context?.projectId);
+	});
+	// Folder groups of the dashboard and of the tree view both pass their groupKey
+	const assignGroupColorsCommand = vscode.commands.registerCommand('syncable-project-dashboard.assignGroupColors', (context?: { groupKey?: string }) => {
+		dashboard.assignGroupColors(context?.groupKey);
+	});
+	const clearGroupColorsCommand = vscode.commands.registerCommand('syncable-project-dashboard.clearGroupColors', (context?: { groupKey?: string }) => {
+		dashboard.clearGroupColors(context?.groupKey);
+	});
+	const sortProjectsCommand = vscode.commands.registerCommand('syncable-project-dashboard.sortProjects', () => {
+		dashboard.chooseProjectSort();
+	});
+	const sortGroupCommand = vscode.commands.registerCommand('syncable-project-dashboard.sortGroup', (context?: { groupKey?: string }) => {
+		dashboard.sortGroup(context?.groupKey);
+	});
+	const resetOrderCommand = vscode.commands.registerCommand('syncable-project-dashboard.resetOrder', () => {
+		dashboard.resetOrder();
+	});
+	const resetGroupOrderCommand = vscode.commands.registerCommand('syncable-project-dashboard.resetGroupOrder', (context?: { groupKey?: string }) => {
+		dashboard.resetGroupOrder(context?.groupKey);
+	});
+	const switchViewModeCommand = vscode.commands.registerCommand('syncable-project-dashboard.switchViewMode', () => {
+		dashboard.setViewMode();
+	});
+	const chooseListColumnsCommand = vscode.commands.registerCommand('syncable-project-dashboard.chooseListColumns', () => {
+		dashboard.chooseListColumns();
+	});
+	const createGroupCommand = vscode.commands.registerCommand('syncable-project-dashboard.createGroup', () => {
+		dashboard.createCustomGroup();
+	});
+	const renameGroupCommand = vscode.commands.registerCommand('syncable-project-dashboard.renameGroup', () => {
+		dashboard.renameCustomGroup();
+	});
+	const deleteGroupCommand = vscode.commands.registerCommand('syncable-project-dashboard.deleteGroup', () => {
+		dashboard.deleteCustomGroup();
+	});
+
+	// Rescan when the scan exclusion, git status or color settings change, re-render when the view settings change
+	const configurationListener = vscode.workspace.onDidChangeConfiguration(event => {
+		const affectsScan = event.affectsConfiguration('syncableProjectDashboard.scan')
+			|| event.affectsConfiguration('syncableProjectDashboard.git.enabled')
+			|| event.affectsConfiguration('syncableProjectDashboard.colors');
+		if (affectsScan && configManager.getBaseFolders().length > 0) {
+			dashboard.rescanProjects();
+		}
+		if (event.affectsConfiguration('syncableProjectDashboard.usage')) {
+			dashboard.postPinnedSections();
+		}
+		if (event.affectsConfiguration('syncableProjectDashboard.view')) {
+			dashboard.reload();
+		}
+	});
+
 	// Register the previous helloWorld command
 	const helloWorldCommand = vscode.commands.registerCommand('syncable-project-dashboard.helloWorld', () => {
 		vscode.window.showInformationMessage('Hello World from Syncable Project Dashboard!');
@@ -35,7 +226,57 @@ export function activate(context: vscode.ExtensionContext) {
 	});
 
 	// Add commands to subscriptions
-	context.subscriptions.push(showDashboardCommand, helloWorldCommand);
+	context.subscriptions.push(
+		showDashboardCommand,
+		switchProjectCommand,
+		projectTree,
+		openProjectCommand,
+		refreshGroupCommand,
+		rescanProjectsCommand,
+		...openModeCommands,
+		openProjectsAsWorkspaceCommand,
+		openProjectSetCommand,
+		deleteProjectSetCommand,
+		hideProjectCommand,
+		showHiddenProjectsCommand,
+		addToFavoritesCommand,
+		removeFromFavoritesCommand,
+		addToGroupCommand,
+		removeFromGroupCommand,
+		editTagsCommand,
+		setProjectColorCommand,
+		clearProjectColorCommand,
+		assignGroupColorsCommand,
+		clearGroupColorsCommand,
+		sortProjectsCommand,
+		sortGroupCommand,
+		resetOrderCommand,
+		resetGroupOrderCommand,
+		switchViewModeCommand,
+		chooseListColumnsCommand,
+		createGroupCommand,
+		renameGroupCommand,
+		deleteGroupCommand,
+		configurationListener,
+		workspaceFoldersListener,
+		projectWatcher,
+		projectsChangeListener,
+		configFileSync,
+		configFileChangeListener,
+		linkConfigFileCommand,
+		unlinkConfigFileCommand,
+		undoLastChangeCommand,
+		restoreFromBackupCommand,
+		helloWorldCommand
+	);
+
+	return {
+		registerDetector: detector => {
+			const registration = configManager.registerDetector(detector);
+			context.subscriptions.push(registration);
+			return registration;
+		}
+	};
 }
 
 // This method is called when your extension is deactivated
@@ -0,0 +1,88 @@
+import * as childProcess from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface GitInfo {
+    branch?: string; // Undefined when the HEAD is detached
+    upstream?: string;
+    ahead?: number; // Commits not pushed to the upstream
+    behind?: number; // Upstream commits not pulled yet
+    dirty: number; // Changed, staged, conflicted and untracked files
+    lastCommitDate?: number;
+    lastCommitSubject?: string;
+}
+
+/**
+ * Run a git command in a folder and resolve to its output
+ */
+function runGit(cwd: string, args: string[], timeout: number): Promise<string> {
+    return new Promise((resolve, reject) => {
+        childProcess.execFile('git', args, {
+            cwd: cwd,
+            timeout: timeout,
+            maxBuffer: 10 * 1024 * 1024,
+            windowsHide: true,
+            // Never take locks another git process could be waiting for
+            env: { ...process.env, GIT_OPTIONAL_LOCKS: '0' }
+        }, (error, stdout) => {
+            if (error) {
+                reject(error);
+            } else {
+                resolve(stdout);
+            }
+        });
+    });
+}
+
+/**
+ * Parse the output of `git status --porcelain=v2 --branch`
+ */
+export function parseGitStatus(output: string): GitInfo {
+    const gitInfo: GitInfo = { dirty: 0 };
+
+    for (const line of output.split('\n')) {
+        if (line.startsWith('# branch.head ')) {
+            const head = line.substring('# branch.head '.length).trim();
+            gitInfo.branch = head === '(detached)' ? undefined : head;
+        } else if (line.startsWith('# branch.upstream ')) {
+            gitInfo.upstream = line.substring('# branch.upstream '.length).trim();
+        } else if (line.startsWith('# branch.ab ')) {
+            const match = /\+(\d+) -(\d+)/.exec(line);
+            if (match) {
+                gitInfo.ahead = parseInt(match[1], 10);
+                gitInfo.behind = parseInt(match[2], 10);
+            }
+        } else if (/^[12u?] /.test(line)) {
+            gitInfo.dirty++;
+        }
+    }
+
+    return gitInfo;
+}
+
+/**
+ * Read the git metadata of a project from the local repository, without touching the network.
+ * Resolves to undefined when the project is not a git repository.
+ */
+export async function readGitInfo(projectPath: string, timeout: number): Promise<GitInfo | undefined> {
+    try {
+        await fs.promises.stat(path.join(projectPath, '.git'));
+    } catch {
+        return undefined;
+    }
+
+    const gitInfo = parseGitStatus(await runGit(projectPath, ['status', '--porcelain=v2', '--branch'], timeout));
+
+    try {
+        const log = await runGit(projectPath, ['log', '-1', '--format=%ct%n%s'], timeout);
+        const [timestamp, ...subject] = log.trim().split('\n');
+        if (timestamp) {
+            gitInfo.lastCommitDate = parseInt(timestamp, 10) * 1000;
+            gitInfo.lastCommitSubject = subject.join('\n');
+        }
+    } catch {
+        // A repository without commits has no last commit
+    }
+
+    return gitInfo;
+}
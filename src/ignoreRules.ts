@@ -0,0 +1,125 @@
+/**
+ * Convert a glob pattern into a regular expression matching a whole '/' separated path.
+ * Supports `*`, `?`, `**`, `[...]` character classes and `{a,b}` alternatives.
+ */
+export function globToRegExp(glob: string): RegExp {
+    let regex = '';
+    let braceDepth = 0;
+
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+
+        switch (char) {
+            case '*':
+                if (glob[i + 1] === '*') {
+                    // "**/" matches zero or more folders, a trailing "**" matches everything
+                    if (glob[i + 2] === '/') {
+                        regex += '(?:.*/)?';
+                        i += 2;
+                    } else {
+                        regex += '.*';
+                        i += 1;
+                    }
+                } else {
+                    regex += '[^/]*';
+                }
+                break;
+            case '?':
+                regex += '[^/]';
+                break;
+            case '[': {
+                const end = glob.indexOf(']', i + 1);
+                if (end === -1) {
+                    regex += '\\[';
+                } else {
+                    const content = glob.substring(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\');
+                    regex += `[${content}]`;
+                    i = end;
+                }
+                break;
+            }
+            case '{':
+                braceDepth++;
+                regex += '(?:';
+                break;
+            case '}':
+                if (braceDepth > 0) {
+                    braceDepth--;
+                    regex += ')';
+                } else {
+                    regex += '\\}';
+                }
+                break;
+            case ',':
+                regex += braceDepth > 0 ? '|' : ',';
+                break;
+            default:
+                regex += char.replace(/[.+^$()|\\]/g, '\\$&');
+        }
+    }
+
+    return new RegExp(`^${regex}$`);
+}
+
+interface IgnoreRule {
+    pattern: RegExp;
+    negated: boolean;
+}
+
+/**
+ * Ordered include/exclude rules using gitignore semantics: the last matching rule wins,
+ * patterns without a '/' match a folder name at any depth, and a leading '!' re-includes.
+ */
+export class IgnoreRules {
+    private rules: IgnoreRule[] = [];
+
+    /**
+     * Add a single exclude pattern, or an include pattern when negated
+     */
+    public add(pattern: string, negated: boolean = false): void {
+        pattern = pattern.trim();
+        if (pattern.startsWith('!')) {
+            negated = !negated;
+            pattern = pattern.substring(1);
+        }
+
+        // Only folders are scanned, so a trailing slash carries no meaning
+        pattern = pattern.replace(/\/+$/, '');
+        if (!pattern) {
+            return;
+        }
+
+        // Anchored patterns match from the base folder, others match at any depth
+        if (pattern.includes('/')) {
+            pattern = pattern.replace(/^\//, '');
+        } else {
+            pattern = `**/${pattern}`;
+        }
+
+        this.rules.push({ pattern: globToRegExp(pattern), negated: negated });
+    }
+
+    /**
+     * Add the rules of an ignore file, one pattern per line with '#' comments
+     */
+    public addLines(content: string): void {
+        for (const line of content.split(/\r?\n/)) {
+            if (line.trim() && !line.trim().startsWith('#')) {
+                this.add(line);
+            }
+        }
+    }
+
+    /**
+     * Check whether a path relative to the base folder is excluded
+     */
+    public isIgnored(relativePath: string): boolean {
+        let ignored = false;
+        for (const rule of this.rules) {
+            if (rule.pattern.test(relativePath)) {
+                ignored = !rule.negated;
+            }
+        }
+        return ignored;
+    }
+}
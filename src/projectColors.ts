@@ -0,0 +1,174 @@
+/**
+ * Where the color of a project is read from, in order of priority. Keys are looked up as settings,
+ * e.g. Peacock's `peacock.color`, then as theme colors in `workbench.colorCustomizations`.
+ */
+export const DEFAULT_COLOR_KEYS = [
+    'activityBar.background',
+    'peacock.color',
+    'titleBar.activeBackground',
+    'statusBar.background'
+];
+
+export interface RgbaColor {
+    r: number; // 0-255
+    g: number;
+    b: number;
+    a: number; // 0-1
+}
+
+/**
+ * Find the first color of the priority list in parsed settings, either a `.vscode/settings.json`
+ * or the `settings` of a `.code-workspace` file
+ */
+export function findSettingsColor(settings: unknown, colorKeys: string[]): string | undefined {
+    if (!isPlainObject(settings)) {
+        return undefined;
+    }
+    const nestedCustomizations = isPlainObject(settings.workbench) ? settings.workbench.colorCustomizations : undefined;
+    const colorCustomizations = {
+        ...isPlainObject(nestedCustomizations) ? nestedCustomizations : {},
+        ...isPlainObject(settings['workbench.colorCustomizations']) ? settings['workbench.colorCustomizations'] : {}
+    };
+
+    for (const key of colorKeys) {
+        const color = typeof settings[key] === 'string' ? settings[key] : colorCustomizations[key];
+        if (typeof color === 'string' && color.trim()) {
+            return color.trim();
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Parse a CSS color in hex, rgb() or hsl() notation
+ */
+export function parseCssColor(color: string): RgbaColor | undefined {
+    const value = color.trim().toLowerCase();
+
+    const hex = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/.exec(value);
+    if (hex) {
+        const digits = hex[1].length <= 4 ? hex[1].split('').map(digit => digit + digit).join('') : hex[1];
+        const channel = (index: number) => parseInt(digits.substring(index * 2, index * 2 + 2), 16);
+        return { r: channel(0), g: channel(1), b: channel(2), a: digits.length === 8 ? channel(3) / 255 : 1 };
+    }
+
+    const functional = /^(rgb|hsl)a?\(([^)]*)\)$/.exec(value);
+    if (!functional) {
+        return undefined;
+    }
+    const parts = functional[2].split(/[\s,/]+/).filter(Boolean);
+    if (parts.length < 3 || parts.length > 4) {
+        return undefined;
+    }
+    const numbers = parts.map(part => parseFloat(part));
+    if (numbers.some(number => isNaN(number))) {
+        return undefined;
+    }
+    const alpha = parts[3] === undefined ? 1 : parts[3].endsWith('%') ? numbers[3] / 100 : numbers[3];
+
+    if (functional[1] === 'rgb') {
+        const channel = (index: number) => parts[index].endsWith('%') ? numbers[index] * 2.55 : numbers[index];
+        return { r: clamp(channel(0), 255), g: clamp(channel(1), 255), b: clamp(channel(2), 255), a: clamp(alpha, 1) };
+    }
+
+    // hsl() to rgb, see https://www.w3.org/TR/css-color-4/#hsl-to-rgb
+    const hue = ((numbers[0] % 360) + 360) % 360;
+    const saturation = clamp(numbers[1], 100) / 100;
+    const lightness = clamp(numbers[2], 100) / 100;
+    const channel = (n: number) => {
+        const k = (n + hue / 30) % 12;
+        const chroma = saturation * Math.min(lightness, 1 - lightness);
+        return 255 * (lightness - chroma * Math.max(-1, Math.min(k - 3, 9 - k, 1)));
+    };
+    return { r: channel(0), g: channel(8), b: channel(4), a: clamp(alpha, 1) };
+}
+
+/**
+ * Format a color as #rrggbb, dropping its transparency
+ */
+export function formatHexColor(color: RgbaColor): string {
+    return `#${[color.r, color.g, color.b].map(channel => Math.round(channel).toString(16).padStart(2, '0')).join('')}`;
+}
+
+/**
+ * Format a color as #rrggbb, or as rgba() when it is transparent
+ */
+export function formatCssColor(color: RgbaColor): string {
+    if (color.a >= 1) {
+        return formatHexColor(color);
+    }
+    return `rgba(${[color.r, color.g, color.b].map(channel => Math.round(channel)).join(', ')}, ${Math.round(color.a * 100) / 100})`;
+}
+
+/**
+ * Get colors with evenly spread hues, as far apart from each other as possible
+ */
+export function getDistinctColors(count: number): string[] {
+    return Array.from({ length: count }, (_, index) => formatHexColor(parseCssColor(`hsl(${Math.round(index * 360 / count)}, 60%, 40%)`)!));
+}
+
+/**
+ * Convert a color to hue (0-360), saturation and lightness (0-1)
+ */
+export function getHsl(color: RgbaColor): { h: number; s: number; l: number } {
+    const [r, g, b] = [color.r / 255, color.g / 255, color.b / 255];
+    const max = Math.max(r, g, b);
+    const min = Math.min(r, g, b);
+    const l = (max + min) / 2;
+    const chroma = max - min;
+    if (chroma === 0) {
+        return { h: 0, s: 0, l: l };
+    }
+
+    const s = chroma / (1 - Math.abs(2 * l - 1));
+    let h: number;
+    if (max === r) {
+        h = ((g - b) / chroma + 6) % 6;
+    } else if (max === g) {
+        h = (b - r) / chroma + 2;
+    } else {
+        h = (r - g) / chroma + 4;
+    }
+    return { h: h * 60, s: s, l: l };
+}
+
+/**
+ * Relative luminance as defined by WCAG 2
+ */
+function getLuminance(color: RgbaColor): number {
+    const linear = (channel: number) => {
+        const value = channel / 255;
+        return value <= 0.03928 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4);
+    };
+    return 0.2126 * linear(color.r) + 0.7152 * linear(color.g) + 0.0722 * linear(color.b);
+}
+
+/**
+ * Contrast ratio of two colors as defined by WCAG 2, from 1 to 21
+ */
+export function getContrastRatio(first: RgbaColor, second: RgbaColor): number {
+    const [lighter, darker] = [getLuminance(first), getLuminance(second)].sort((a, b) => b - a);
+    return (lighter + 0.05) / (darker + 0.05);
+}
+
+/**
+ * Pick white or black text, whichever contrasts more with the background. Transparency is
+ * ignored, undefined when the color cannot be parsed.
+ */
+export function getContrastTextColor(background: string): '#ffffff' | '#000000' | undefined {
+    const color = parseCssColor(background);
+    if (!color) {
+        return undefined;
+    }
+    const white: RgbaColor = { r: 255, g: 255, b: 255, a: 1 };
+    const black: RgbaColor = { r: 0, g: 0, b: 0, a: 1 };
+    return getContrastRatio(color, white) >= getContrastRatio(color, black) ? '#ffffff' : '#000000';
+}
+
+function clamp(value: number, max: number): number {
+    return Math.min(Math.max(value, 0), max);
+}
+
+function isPlainObject(value: unknown): value is { [key: string]: unknown } {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
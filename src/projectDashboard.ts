@@ -1,16 +1,132 @@
 import * as vscode from 'vscode';
-import { ConfigManager, ProjectConfig, ProjectInfo } from './configManager';
-import * as path from 'path';
+import {
+    BaseFolder,
+    ConfigManager,
+    CustomGroup,
+    LayoutRules,
+    ProjectConfig,
+    ProjectInfo,
+    ProjectsData,
+    ProjectUsage,
+    SyncedBaseFolder,
+    VirtualGroupRef
+} from './configManager';
+import { DEFAULT_GROUPS_MAX_DEPTH, DEFAULT_MARKERS, DEFAULT_MARKERS_MAX_DEPTH } from './projectScanner';
+import { ProjectsChangeEvent } from './projectWatcher';
+import { GitInfo } from './gitInfo';
+import { LANGUAGE_ICONS } from './projectDetectors';
+import { CONFIG_SCHEMA_VERSION } from './configSchema';
+import { formatCssColor, formatHexColor, getContrastTextColor, parseCssColor } from './projectColors';
+import { SORT_KEYS, SORT_PRESETS, SortCriterion, SortKey, describeSortCriteria, getSortPreset } from './projectSort';
+import { ImportStrategy, mergeConfigParts } from './configMerge';
+import { describeConfigDiff, diffConfigs, isEmptyDiff, summarizeConfigDiff } from './configDiff';
+import { fuzzyMatch, isWordStart, parseQuery } from './searchQuery';
 import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * How a project is opened
+ */
+export type OpenMode = 'currentWindow' | 'newWindow' | 'addToWorkspace' | 'terminal' | 'revealInOS';
+
+/**
+ * Colors offered when setting the color of a project
+ */
+const PROJECT_COLORS: { name: string; color: string }[] = [
+    { name: 'Red', color: '#a3293d' },
+    { name: 'Orange', color: '#a35c29' },
+    { name: 'Yellow', color: '#a39429' },
+    { name: 'Green', color: '#3da329' },
+    { name: 'Teal', color: '#29a38f' },
+    { name: 'Blue', color: '#2966a3' },
+    { name: 'Purple', color: '#5c29a3' },
+    { name: 'Pink', color: '#a3298f' },
+    { name: 'Gray', color: '#5c5c5c' }
+];
+
+interface ImportStrategyItem extends vscode.QuickPickItem {
+    strategy: ImportStrategy;
+}
+
+const IMPORT_STRATEGIES: ImportStrategyItem[] = [
+    { label: 'Replace', detail: 'Replace the selected parts of the current configuration with the imported ones', strategy: 'replace' },
+    { label: 'Merge, Prefer Local', detail: 'Add what is new, keep the current value where both differ', strategy: 'mergePreferLocal' },
+    { label: 'Merge, Prefer Imported', detail: 'Add what is new, take the imported value where both differ', strategy: 'mergePreferImported' }
+];
+
+interface ImportPartItem extends vscode.QuickPickItem {
+    keys: (keyof ProjectConfig)[];
+}
+
+/**
+ * Parts of a configuration that can be imported on their own
+ */
+const IMPORT_PARTS: ImportPartItem[] = [
+    { label: 'Base Folders', keys: ['baseFolders'] },
+    { label: 'Scan Results', description: 'Groups and projects', keys: ['projectsData', 'lastScanTime'] },
+    { label: 'Group States', description: 'Expanded groups', keys: ['groupStates'] },
+    { label: 'Favorites', keys: ['favorites'] },
+    { label: 'Custom Groups', keys: ['customGroups'] },
+    { label: 'Tags', keys: ['projectTags'] },
+    { label: 'Project Sets', keys: ['projectSets'] },
+    { label: 'Hidden Projects', keys: ['hiddenProjects'] },
+    { label: 'Sort Order', description: 'Sorting and the custom order of groups and projects', keys: ['sort', 'customOrder'] },
+    { label: 'Usage', description: 'When and how often projects were opened', keys: ['projectUsage'] }
+];
+
+interface ProjectCardOptions {
+    subtitle?: string; // Shown below the project name
+    favorite?: boolean; // Whether the project is starred, read from the config when not given
+    source?: VirtualGroupRef; // The favorites or custom group the card is shown in
+}
+
+/**
+ * How the dashboard shows projects: colored tiles, a table with one row per project, or small tiles
+ */
+export type ViewMode = 'grid' | 'list' | 'compact';
+
+const VIEW_MODES: { mode: ViewMode; label: string; icon: string }[] = [
+    { mode: 'grid', label: 'Grid', icon: '▦' },
+    { mode: 'list', label: 'List', icon: '☰' },
+    { mode: 'compact', label: 'Compact', icon: '⠿' }
+];
+
+/**
+ * Columns of the list view that can be chosen, the name is always shown first
+ */
+type ListColumn = 'group' | 'path' | 'branch' | 'lastModified' | 'size';
+
+const LIST_COLUMNS: { [column in ListColumn]: { label: string; sortKey: SortKey; width: string } } = {
+    group: { label: 'Group', sortKey: 'group', width: 'minmax(80px, 1fr)' },
+    path: { label: 'Path', sortKey: 'path', width: 'minmax(120px, 2fr)' },
+    branch: { label: 'Branch', sortKey: 'branch', width: 'minmax(60px, 1fr)' },
+    lastModified: { label: 'Last Modified', sortKey: 'lastModified', width: '100px' },
+    size: { label: 'Size', sortKey: 'size', width: '80px' }
+};
+
+interface ViewSettings {
+    mode: ViewMode;
+    columns: ListColumn[];
+}
 
 export class ProjectDashboard {
     private panel: vscode.WebviewPanel | undefined;
     private configManager: ConfigManager;
+    private runningScan: Promise<ProjectConfig | undefined> | undefined;
     private context: vscode.ExtensionContext;
 
     constructor(configManager: ConfigManager, context: vscode.ExtensionContext) {
         this.configManager = configManager;
         this.context = context;
+
+        // Groups can also be expanded and collapsed in the tree view
+        context.subscriptions.push(configManager.onDidChangeGroupState(event => {
+            this.panel?.webview.postMessage({
+                command: 'setGroupExpanded',
+                groupKey: event.groupKey,
+                expanded: event.expanded
+            });
+        }));
     }
 
     /**
@@ -46,20 +162,41 @@ export class ProjectDashboard {
                     case 'selectBaseFolder':
                         await this.handleSelectBaseFolder();
                         break;
+                    case 'manageBaseFolders':
+                        await this.handleManageBaseFolders();
+                        break;
                     case 'openProject':
-                        await this.handleOpenProject(message.projectPath);
+                        await this.handleOpenProject(message.projectPath, message.mode || undefined);
                         break;
                     case 'rescanProjects':
                         await this.rescanProjects();
                         break;
                     case 'refreshGroup':
-                        await this.refreshGroup(message.groupName);
+                        await this.refreshGroup(message.groupKey);
                         break;
                     case 'sortProjects':
                         await this.sortProjects(message.sortBy);
                         break;
+                    case 'chooseProjectSort':
+                        await this.chooseProjectSort();
+                        break;
+                    case 'sortByColumn':
+                        await this.sortByColumn(message.key, message.groupKey || undefined);
+                        break;
+                    case 'setViewMode':
+                        await this.setViewMode(message.mode);
+                        break;
+                    case 'chooseListColumns':
+                        await this.chooseListColumns();
+                        break;
+                    case 'reorderProjects':
+                        await this.reorderProjects(message.groupKey, message.projectIds);
+                        break;
+                    case 'reorderGroups':
+                        await this.reorderGroups(message.parentKey, message.groupKeys);
+                        break;
                     case 'toggleGroup':
-                        await this.handleToggleGroup(message.groupName, message.expanded);
+                        await this.handleToggleGroup(message.groupKey, message.expanded);
                         break;
                     case 'exportConfig':
                         await this.handleExportConfig();
@@ -67,221 +204,1362 @@ export class ProjectDashboard {
                     case 'importConfig':
                         await this.handleImportConfig();
                         break;
+                    case 'moveProject':
+                        await this.moveProject(message.projectId, message.from || undefined, message.to || undefined);
+                        break;
+                    case 'toggleCustomGroup':
+                        await this.handleToggleCustomGroup(message.name, message.expanded);
+                        break;
+                    case 'createCustomGroup':
+                        await this.createCustomGroup();
+                        break;
+                    case 'renameCustomGroup':
+                        await this.renameCustomGroup(message.name);
+                        break;
+                    case 'deleteCustomGroup':
+                        await this.deleteCustomGroup(message.name);
+                        break;
+                    case 'openProjectsAsWorkspace':
+                        await this.openProjectsAsWorkspace(message.projectIds);
+                        break;
+                    case 'openProjectSet':
+                        await this.openProjectSet(message.name);
+                        break;
+                    case 'deleteProjectSet':
+                        await this.deleteProjectSet(message.name);
+                        break;
+                    case 'setProjectColor':
+                        await this.setProjectColor(message.projectId, message.color);
+                        break;
                 }
             },
             undefined,
             this.context.subscriptions
         );
 
-        // Load projects and update the webview
-        await this.updateWebview();
+        // Load projects and update the webview
+        await this.updateWebview();
+    }
+
+    /**
+     * Update the webview content, scanning first when the data is missing, stale or `forceScan` is set
+     */
+    private async updateWebview(forceScan: boolean = false): Promise<void> {
+        if (!this.panel) {
+            return;
+        }
+
+        const config = this.configManager.getConfig();
+        
+        // If no base folder is set, try to get one from the user
+        if (!config.baseFolders || config.baseFolders.length === 0) {
+            // Adding a folder renders the dashboard itself, synced base folders only need a folder on this machine
+            if (config.unmappedBaseFolders && config.unmappedBaseFolders.length > 0) {
+                await this.handleManageBaseFolders();
+            } else {
+                await this.handleSelectBaseFolder();
+            }
+            
+            // If user cancelled, show empty state
+            if (this.panel && this.configManager.getBaseFolders().length === 0) {
+                this.panel.webview.html = this.getNoFolderHtml();
+            }
+            return;
+        }
+
+        // Render what is known so far, scanned groups are streamed in afterwards
+        this.panel.webview.html = this.getDashboardHtml(config);
+
+        // If no projects data or it's older than a day, scan projects
+        if (forceScan || !config.projectsData || !config.lastScanTime || 
+            (Date.now() - config.lastScanTime > 24 * 60 * 60 * 1000)) {
+            try {
+                await this.scanWithProgress();
+            } catch (error) {
+                vscode.window.showErrorMessage(`Failed to scan projects: ${error}`);
+                if (this.panel) {
+                    this.panel.webview.html = this.getErrorHtml(error);
+                }
+            }
+        }
+    }
+
+    /**
+     * Scan all base folders behind a cancellable progress notification. Each group is pushed to
+     * the webview as soon as it has been scanned, and the sections are reconciled at the end.
+     * Resolves to undefined when the user cancelled the scan.
+     */
+    private scanWithProgress(): Promise<ProjectConfig | undefined> {
+        // Join a scan that is already running instead of starting a second one
+        if (this.runningScan) {
+            return this.runningScan;
+        }
+
+        this.runningScan = Promise.resolve(vscode.window.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title: 'Scanning projects',
+                cancellable: true
+            },
+            async (progress, token) => {
+                try {
+                    const config = await this.configManager.scanProjects({
+                        token: token,
+                        progress: progress,
+                        onGroupScanned: (baseFolder, groupKey, projectsData) => this.postScannedGroup(baseFolder, groupKey, projectsData)
+                    });
+                    this.postBaseFolderSections(config);
+                    return config;
+                } catch (error) {
+                    if (error instanceof vscode.CancellationError) {
+                        // Drop the partially streamed groups
+                        this.postBaseFolderSections(this.configManager.getConfig());
+                        vscode.window.showInformationMessage('Project scan cancelled.');
+                        return undefined;
+                    }
+                    throw error;
+                }
+            }
+        )).finally(() => {
+            this.runningScan = undefined;
+        });
+
+        return this.runningScan;
+    }
+
+    /**
+     * Push a freshly scanned top level group to the webview while the scan is still running
+     */
+    private postScannedGroup(baseFolder: BaseFolder, groupKey: string, projectsData: ProjectsData): void {
+        if (!this.panel || !(groupKey in projectsData)) {
+            return;
+        }
+
+        const childGroups = this.configManager.getChildGroups(baseFolder, projectsData);
+        this.panel.webview.postMessage({
+            command: 'updateGroup',
+            groupKey: groupKey,
+            baseFolderName: baseFolder.name,
+            html: this.getGroupHtml(groupKey, projectsData, childGroups, this.getGroupStates())
+        });
+    }
+
+    /**
+     * Replace every base folder section in the webview with the given config
+     */
+    private postBaseFolderSections(config: ProjectConfig): void {
+        if (!this.panel) {
+            return;
+        }
+
+        for (const baseFolder of config.baseFolders || []) {
+            this.panel.webview.postMessage({
+                command: 'updateBaseFolder',
+                baseFolderName: baseFolder.name,
+                html: this.getBaseFolderHtml(baseFolder, config)
+            });
+        }
+        this.postPinnedSections();
+        this.panel.webview.postMessage({
+            command: 'updateLastScan',
+            text: this.formatLastScanTime(config)
+        });
+    }
+
+    /**
+     * Replace the usage strips, favorites and custom groups in the webview
+     */
+    public postPinnedSections(): void {
+        this.panel?.webview.postMessage({
+            command: 'updatePinnedSections',
+            html: this.getPinnedSectionsHtml(this.configManager.getConfig())
+        });
+    }
+
+    /**
+     * Format the last scan time for display
+     */
+    private formatLastScanTime(config: ProjectConfig): string {
+        return config.lastScanTime 
+            ? new Date(config.lastScanTime).toLocaleString() 
+            : 'Never';
+    }
+
+    /**
+     * Handle selecting a new base folder
+     */
+    private async handleSelectBaseFolder(): Promise<void> {
+        try {
+            const baseFolder = await this.configManager.addBaseFolder();
+            if (baseFolder) {
+                await this.updateWebview(true);
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to set base folder: ${error}`);
+        }
+    }
+
+    /**
+     * Let the user add a base folder or remove one of the existing ones
+     */
+    private async handleManageBaseFolders(): Promise<void> {
+        type BaseFolderItem = vscode.QuickPickItem & { baseFolder?: BaseFolder | SyncedBaseFolder; action?: 'map' | 'layout' | 'remove' };
+
+        const items: BaseFolderItem[] = [{ label: '$(add) Add Base Folder...' }];
+        for (const baseFolder of this.configManager.getConfig().unmappedBaseFolders || []) {
+            items.push(
+                { label: `${baseFolder.name} (synced, not on this machine)`, kind: vscode.QuickPickItemKind.Separator },
+                {
+                    label: `$(link) Choose Folder for ${baseFolder.name}`,
+                    description: this.describeLayout(baseFolder),
+                    baseFolder: baseFolder,
+                    action: 'map'
+                },
+                {
+                    label: `$(trash) Remove ${baseFolder.name}`,
+                    description: 'From every machine',
+                    baseFolder: baseFolder,
+                    action: 'remove'
+                }
+            );
+        }
+        for (const baseFolder of this.configManager.getBaseFolders()) {
+            items.push(
+                { label: baseFolder.name, kind: vscode.QuickPickItemKind.Separator },
+                {
+                    label: `$(list-tree) Change Layout of ${baseFolder.name}`,
+                    description: this.describeLayout(baseFolder),
+                    baseFolder: baseFolder,
+                    action: 'layout'
+                },
+                {
+                    label: `$(trash) Remove ${baseFolder.name}`,
+                    description: baseFolder.path,
+                    baseFolder: baseFolder,
+                    action: 'remove'
+                }
+            );
+        }
+
+        const selected = await vscode.window.showQuickPick(items, {
+            title: 'Base Folders',
+            placeHolder: 'Add a base folder, change its layout or remove it'
+        });
+        if (!selected) {
+            return;
+        }
+
+        if (!selected.baseFolder) {
+            await this.handleSelectBaseFolder();
+            return;
+        }
+
+        if (selected.action === 'map') {
+            try {
+                if (await this.configManager.addBaseFolder(undefined, selected.baseFolder.name)) {
+                    await this.updateWebview(true);
+                }
+            } catch (error) {
+                vscode.window.showErrorMessage(`Failed to set base folder: ${error}`);
+            }
+            return;
+        }
+
+        if (selected.action === 'layout' && 'path' in selected.baseFolder) {
+            await this.handleChangeLayout(selected.baseFolder);
+            return;
+        }
+
+        const baseFolder = selected.baseFolder;
+        const location = 'path' in baseFolder ? ` (${baseFolder.path})` : '';
+        const result = await vscode.window.showWarningMessage(
+            `Remove base folder "${baseFolder.name}"${location} from the dashboard?`,
+            'Remove', 'Cancel'
+        );
+        if (result !== 'Remove') {
+            return;
+        }
+
+        try {
+            await this.configManager.removeBaseFolder(baseFolder.name);
+            await this.updateWebview();
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to remove base folder: ${error}`);
+        }
+    }
+
+    /**
+     * Ask the user for the layout rules of a base folder, then rescan it
+     */
+    private async handleChangeLayout(baseFolder: BaseFolder): Promise<void> {
+        type LayoutItem = vscode.QuickPickItem & { mode: NonNullable<LayoutRules['mode']> };
+
+        const currentMode = baseFolder.layout?.mode || 'groups';
+        const modeItems: LayoutItem[] = [
+            {
+                label: 'Groups by Depth',
+                detail: 'Folders above the deepest level are nested groups, folders at the deepest level are projects',
+                mode: 'groups'
+            },
+            {
+                label: 'Flat',
+                detail: 'Every folder directly inside the base folder is a project',
+                mode: 'flat'
+            },
+            {
+                label: 'Marker Files',
+                detail: 'Any folder containing a marker such as .git or package.json is a project',
+                mode: 'markers'
+            }
+        ];
+        for (const item of modeItems) {
+            item.picked = item.mode === currentMode;
+            if (item.picked) {
+                item.description = '(current)';
+            }
+        }
+
+        const selectedMode = await vscode.window.showQuickPick(modeItems, {
+            title: `Layout of ${baseFolder.name}`,
+            placeHolder: 'How should folders be turned into groups and projects?'
+        });
+        if (!selectedMode) {
+            return;
+        }
+
+        const layout: LayoutRules = { mode: selectedMode.mode };
+
+        if (selectedMode.mode !== 'flat') {
+            const defaultDepth = selectedMode.mode === 'markers' ? DEFAULT_MARKERS_MAX_DEPTH : DEFAULT_GROUPS_MAX_DEPTH;
+            const maxDepth = await vscode.window.showInputBox({
+                title: `Layout of ${baseFolder.name}`,
+                prompt: selectedMode.mode === 'markers'
+                    ? 'How many folder levels deep should projects be searched for?'
+                    : 'At which folder level are the projects? (2 = group/project, 3 = group/subgroup/project)',
+                value: String(baseFolder.layout?.mode === selectedMode.mode && baseFolder.layout.maxDepth || defaultDepth),
+                validateInput: value => /^[1-9][0-9]*$/.test(value.trim()) ? undefined : 'Enter a positive number'
+            });
+            if (!maxDepth) {
+                return;
+            }
+            layout.maxDepth = parseInt(maxDepth.trim(), 10);
+        }
+
+        if (selectedMode.mode === 'markers') {
+            const markers = await vscode.window.showInputBox({
+                title: `Layout of ${baseFolder.name}`,
+                prompt: 'Comma separated files or folders that mark a project folder (* is a wildcard)',
+                value: (baseFolder.layout?.markers || DEFAULT_MARKERS).join(', ')
+            });
+            if (markers === undefined) {
+                return;
+            }
+            layout.markers = markers.split(',').map(marker => marker.trim()).filter(Boolean);
+        }
+
+        try {
+            await this.configManager.setBaseFolderLayout(baseFolder.name, layout);
+            await this.updateWebview(true);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to change layout: ${error}`);
+        }
+    }
+
+    /**
+     * Describe the layout rules of a base folder for display
+     */
+    private describeLayout(baseFolder: SyncedBaseFolder): string {
+        const rules = this.configManager.getScanner().getLayoutRules(baseFolder);
+        switch (rules.mode) {
+            case 'flat':
+                return 'Flat';
+            case 'markers':
+                return `Marker files (${rules.markers.join(', ')}), up to ${rules.maxDepth} levels`;
+            default:
+                return `Groups by depth, projects at level ${rules.maxDepth}`;
+        }
+    }
+
+    /**
+     * Hide a project from the dashboard
+     */
+    public async hideProject(projectId: string): Promise<void> {
+        try {
+            await this.configManager.hideProject(projectId);
+            this.panel?.webview.postMessage({ command: 'updateProject', projectId: projectId, html: '' });
+            this.postPinnedSections();
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to hide project: ${error}`);
+        }
+    }
+
+    /**
+     * Let the user pick hidden projects to show again
+     */
+    public async showHiddenProjects(): Promise<void> {
+        const hiddenProjects = this.configManager.getConfig().hiddenProjects || [];
+        if (hiddenProjects.length === 0) {
+            vscode.window.showInformationMessage('There are no hidden projects.');
+            return;
+        }
+
+        const selected = await vscode.window.showQuickPick(
+            hiddenProjects.map(projectId => ({ label: projectId })),
+            {
+                title: 'Hidden Projects',
+                placeHolder: 'Select the projects to show on the dashboard again',
+                canPickMany: true
+            }
+        );
+        if (!selected || selected.length === 0) {
+            return;
+        }
+
+        try {
+            await this.configManager.unhideProjects(selected.map(item => item.label));
+            await this.rescanProjects();
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to show hidden projects: ${error}`);
+        }
+    }
+
+    /**
+     * Star a project, asking for the project when none is given
+     */
+    public async addToFavorites(projectId?: string): Promise<void> {
+        const favorites = this.configManager.getConfig().favorites || [];
+        projectId = projectId || await this.pickProject('Add to Favorites', id => !favorites.includes(id));
+        if (projectId) {
+            await this.moveProject(projectId, undefined, { kind: 'favorites' });
+        }
+    }
+
+    /**
+     * Unstar a project, asking for the project when none is given
+     */
+    public async removeFromFavorites(projectId?: string): Promise<void> {
+        const favorites = this.configManager.getConfig().favorites || [];
+        projectId = projectId || await this.pickProject('Remove from Favorites', id => favorites.includes(id));
+        if (projectId) {
+            await this.moveProject(projectId, { kind: 'favorites' }, undefined);
+        }
+    }
+
+    /**
+     * Add a project to a custom group, asking for the project and the group when not given
+     */
+    public async addToCustomGroup(projectId?: string): Promise<void> {
+        projectId = projectId || await this.pickProject('Add to Group');
+        if (!projectId) {
+            return;
+        }
+        const name = await this.pickCustomGroup('Add to Group', true);
+        if (name) {
+            await this.moveProject(projectId, undefined, { kind: 'custom', name: name });
+        }
+    }
+
+    /**
+     * Remove a project from a custom group, asking for the group and the project when not given
+     */
+    public async removeFromCustomGroup(projectId?: string, name?: string): Promise<void> {
+        name = name || await this.pickCustomGroup('Remove from Group', false);
+        if (!name) {
+            return;
+        }
+        const customGroup = this.configManager.getConfig().customGroups?.find(group => group.name === name);
+        projectId = projectId || await this.pickProject(`Remove from ${name}`, id => !!customGroup?.projects.includes(id));
+        if (projectId) {
+            await this.moveProject(projectId, { kind: 'custom', name: name }, undefined);
+        }
+    }
+
+    /**
+     * Let the user choose the tags of a project from the tags in use or type new ones,
+     * asking for the project when none is given
+     */
+    public async editTags(projectId?: string): Promise<void> {
+        projectId = projectId || await this.pickProject('Edit Tags');
+        if (!projectId) {
+            return;
+        }
+        const config = this.configManager.getConfig();
+        const project = this.configManager.findProject(config, projectId);
+        if (!project) {
+            return;
+        }
+
+        // Tags declared in the project's settings are not editable here
+        const declaredTags = (project.tags || []).map(tag => tag.toLowerCase());
+        const knownTags = [...this.configManager.getAllTags(config).keys()].filter(tag => !declaredTags.includes(tag.toLowerCase()));
+        const currentTags = config.projectTags?.[projectId] || [];
+
+        const quickPick = vscode.window.createQuickPick<vscode.QuickPickItem & { tag: string }>();
+        quickPick.title = `Tags of ${project.name}`;
+        quickPick.placeholder = 'Select tags, or type a new tag and press Enter';
+        quickPick.canSelectMany = true;
+
+        const tagItems = [...new Set([...knownTags, ...currentTags])].map(tag => ({ label: tag, tag: tag }));
+        quickPick.items = tagItems;
+        quickPick.selectedItems = tagItems.filter(item => currentTags.includes(item.tag));
+
+        // Offer the typed text as a new tag
+        quickPick.onDidChangeValue(value => {
+            const tag = value.trim();
+            const isNew = tag && !quickPick.items.some(item => item.tag.toLowerCase() === tag.toLowerCase());
+            const selectedItems = quickPick.selectedItems;
+            quickPick.items = isNew
+                ? [{ label: `$(add) ${tag}`, description: 'New tag', tag: tag, alwaysShow: true }, ...tagItems]
+                : tagItems;
+            quickPick.selectedItems = quickPick.items.filter(item => selectedItems.some(selected => selected.tag === item.tag));
+        });
+
+        const selectedTags = await new Promise<string[] | undefined>(resolve => {
+            quickPick.onDidAccept(() => {
+                // Enter on a typed tag adds it instead of closing
+                const typedTag = quickPick.value.trim();
+                if (typedTag && !quickPick.selectedItems.some(item => item.tag.toLowerCase() === typedTag.toLowerCase())) {
+                    let item = tagItems.find(existing => existing.tag.toLowerCase() === typedTag.toLowerCase());
+                    if (!item) {
+                        item = { label: typedTag, tag: typedTag };
+                        tagItems.push(item);
+                    }
+                    const selectedItems = [...quickPick.selectedItems.filter(selected => tagItems.includes(selected)), item];
+                    quickPick.value = '';
+                    quickPick.items = tagItems;
+                    quickPick.selectedItems = selectedItems;
+                    return;
+                }
+                resolve(quickPick.selectedItems.map(item => item.tag));
+                quickPick.hide();
+            });
+            quickPick.onDidHide(() => resolve(undefined));
+            quickPick.show();
+        });
+        quickPick.dispose();
+        if (!selectedTags) {
+            return;
+        }
+
+        try {
+            await this.configManager.setProjectTags(projectId, selectedTags);
+            this.applyProjectsChange({ baseFolderName: this.configManager.splitKey(projectId).baseFolderName, projectId: projectId });
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to edit tags: ${error}`);
+        }
+    }
+
+    /**
+     * Set the color of a project in its settings, asking for the project and the color when not given
+     */
+    public async setProjectColor(projectId?: string, color?: string): Promise<void> {
+        projectId = projectId || await this.pickProject('Set Project Color');
+        if (!projectId) {
+            return;
+        }
+        const project = this.configManager.findProject(this.configManager.getConfig(), projectId);
+        if (!project) {
+            return;
+        }
+
+        if (!color) {
+            const items: (vscode.QuickPickItem & { color?: string; clear?: boolean })[] = PROJECT_COLORS.map(preset => ({
+                label: preset.name,
+                description: preset.color,
+                color: preset.color
+            }));
+            items.push({ label: '$(edit) Custom Color...' });
+            if (project.color) {
+                items.push({ label: '$(close) Clear Color', clear: true });
+            }
+
+            const selected = await vscode.window.showQuickPick(items, {
+                title: `Set Color of ${project.name}`,
+                placeHolder: project.color ? `Current color: ${project.color}` : 'Select a color'
+            });
+            if (!selected) {
+                return;
+            }
+            if (selected.clear) {
+                return this.clearProjectColor(projectId);
+            }
+
+            color = selected.color || await vscode.window.showInputBox({
+                title: `Set Color of ${project.name}`,
+                prompt: 'A CSS color, e.g. #2966a3, rgb(41, 102, 163) or hsl(210, 60%, 40%)',
+                value: project.color,
+                validateInput: value => parseCssColor(value) ? undefined : 'Not a valid color'
+            });
+            if (!color) {
+                return;
+            }
+        }
+
+        const newColor = color.trim();
+        await this.writeProjectColors(async () => await this.configManager.setProjectColor(projectId!, newColor) ? [projectId!] : []);
+    }
+
+    /**
+     * Remove the color of a project from its settings, asking for the project when none is given
+     */
+    public async clearProjectColor(projectId?: string): Promise<void> {
+        const config = this.configManager.getConfig();
+        projectId = projectId || await this.pickProject('Clear Project Color', id => !!this.configManager.findProject(config, id)?.color);
+        if (projectId) {
+            await this.writeProjectColors(async () => await this.configManager.setProjectColor(projectId!, undefined) ? [projectId!] : []);
+        }
+    }
+
+    /**
+     * Give the projects of a folder group distinct colors, asking for the group when none is given
+     */
+    public async assignGroupColors(groupKey?: string): Promise<void> {
+        groupKey = groupKey || await this.pickFolderGroup('Auto-Assign Group Colors');
+        if (groupKey) {
+            await this.writeProjectColors(() => this.configManager.assignGroupColors(groupKey!));
+        }
+    }
+
+    /**
+     * Remove the colors of the projects of a folder group, asking for the group when none is given
+     */
+    public async clearGroupColors(groupKey?: string): Promise<void> {
+        groupKey = groupKey || await this.pickFolderGroup('Clear Group Colors');
+        if (groupKey) {
+            await this.writeProjectColors(() => this.configManager.clearGroupColors(groupKey!));
+        }
+    }
+
+    /**
+     * Run a color change and update the cards of the projects whose color changed
+     */
+    private async writeProjectColors(write: () => Promise<string[]>): Promise<void> {
+        try {
+            const changedIds = await write();
+            for (const projectId of changedIds) {
+                this.applyProjectsChange({ baseFolderName: this.configManager.splitKey(projectId).baseFolderName, projectId: projectId });
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to set the project color: ${error}`);
+        }
+    }
+
+    /**
+     * Ask for a name and create a custom group. Resolves to the name of the new group.
+     */
+    public async createCustomGroup(): Promise<string | undefined> {
+        const name = await vscode.window.showInputBox({
+            title: 'Create Group',
+            prompt: 'Name of the custom group, e.g. "On-call"',
+            validateInput: value => this.configManager.validateCustomGroupName(value)
+        });
+        if (!name) {
+            return undefined;
+        }
+
+        try {
+            const customGroup = await this.configManager.createCustomGroup(name);
+            this.postPinnedSections();
+            return customGroup.name;
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to create group: ${error}`);
+            return undefined;
+        }
+    }
+
+    /**
+     * Rename a custom group, asking for the group when none is given
+     */
+    public async renameCustomGroup(name?: string): Promise<void> {
+        name = name || await this.pickCustomGroup('Rename Group', false);
+        if (!name) {
+            return;
+        }
+
+        const newName = await vscode.window.showInputBox({
+            title: `Rename ${name}`,
+            value: name,
+            validateInput: value => this.configManager.validateCustomGroupName(value, name)
+        });
+        if (!newName || newName === name) {
+            return;
+        }
+
+        try {
+            await this.configManager.renameCustomGroup(name, newName);
+            this.postPinnedSections();
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to rename group: ${error}`);
+        }
+    }
+
+    /**
+     * Delete a custom group after confirmation, asking for the group when none is given
+     */
+    public async deleteCustomGroup(name?: string): Promise<void> {
+        name = name || await this.pickCustomGroup('Delete Group', false);
+        if (!name) {
+            return;
+        }
+
+        const result = await vscode.window.showWarningMessage(
+            `Delete the group "${name}"? Its projects stay in their folders.`,
+            'Delete', 'Cancel'
+        );
+        if (result !== 'Delete') {
+            return;
+        }
+
+        try {
+            await this.configManager.deleteCustomGroup(name);
+            this.postPinnedSections();
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to delete group: ${error}`);
+        }
+    }
+
+    /**
+     * Move a project between the favorites and custom groups and update the cards showing it
+     */
+    private async moveProject(projectId: string, from: VirtualGroupRef | undefined, to: VirtualGroupRef | undefined): Promise<void> {
+        try {
+            await this.configManager.moveProject(projectId, from, to);
+
+            // The favorite star is shown on every card of the project
+            const { baseFolderName } = this.configManager.splitKey(projectId);
+            this.applyProjectsChange({ baseFolderName: baseFolderName, projectId: projectId });
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to move project: ${error}`);
+        }
+    }
+
+    /**
+     * Handle toggling a custom group's expanded/collapsed state
+     */
+    private async handleToggleCustomGroup(name: string, expanded: boolean): Promise<void> {
+        try {
+            await this.configManager.setCustomGroupCollapsed(name, !expanded);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to toggle group: ${error}`);
+        }
+    }
+
+    /**
+     * Let the user pick one of the scanned projects
+     */
+    private async pickProject(title: string, filter: (projectId: string) => boolean = () => true): Promise<string | undefined> {
+        const projectsData = this.configManager.getConfig().projectsData || {};
+        const items: (vscode.QuickPickItem & { projectId: string })[] = [];
+        for (const groupKey of Object.keys(projectsData)) {
+            for (const project of projectsData[groupKey]) {
+                if (filter(project.id)) {
+                    items.push({ label: project.name, description: groupKey, projectId: project.id });
+                }
+            }
+        }
+        if (items.length === 0) {
+            vscode.window.showInformationMessage('There are no matching projects.');
+            return undefined;
+        }
+
+        const selected = await vscode.window.showQuickPick(items, { title: title, placeHolder: 'Select a project', matchOnDescription: true });
+        return selected?.projectId;
+    }
+
+    /**
+     * Let the user pick one of the scanned folder groups that contain projects
+     */
+    private async pickFolderGroup(title: string): Promise<string | undefined> {
+        const projectsData = this.configManager.getConfig().projectsData || {};
+        const items = Object.keys(projectsData)
+            .filter(groupKey => projectsData[groupKey].length > 0)
+            .map(groupKey => ({ label: groupKey, description: `${projectsData[groupKey].length} projects` }));
+        if (items.length === 0) {
+            vscode.window.showInformationMessage('There are no groups with projects.');
+            return undefined;
+        }
+
+        const selected = await vscode.window.showQuickPick(items, { title: title, placeHolder: 'Select a group' });
+        return selected?.label;
+    }
+
+    /**
+     * Let the user pick a custom group, optionally offering to create a new one
+     */
+    private async pickCustomGroup(title: string, allowCreate: boolean): Promise<string | undefined> {
+        const customGroups = this.configManager.getConfig().customGroups || [];
+        if (customGroups.length === 0 && !allowCreate) {
+            vscode.window.showInformationMessage('There are no custom groups.');
+            return undefined;
+        }
+
+        const items: (vscode.QuickPickItem & { name?: string })[] = customGroups.map(group => ({
+            label: group.name,
+            description: `${group.projects.length} projects`,
+            name: group.name
+        }));
+        if (allowCreate) {
+            items.push({ label: '$(add) New Group...' });
+        }
+
+        const selected = await vscode.window.showQuickPick(items, { title: title, placeHolder: 'Select a group' });
+        if (!selected) {
+            return undefined;
+        }
+        return selected.name || await this.createCustomGroup();
+    }
+
+    /**
+     * Rescan projects and update the webview
+     */
+    public async rescanProjects(): Promise<void> {
+        try {
+            if (this.panel) {
+                await this.scanWithProgress();
+            } else {
+                await this.configManager.scanProjects();
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to scan projects: ${error}`);
+        }
+    }
+
+    /**
+     * Re-render the dashboard from the saved configuration, e.g. after it was changed outside of
+     * this window. Never scans or asks for base folders.
+     */
+    public reload(): void {
+        if (!this.panel) {
+            return;
+        }
+        const config = this.configManager.getConfig();
+        this.panel.webview.html = config.baseFolders && config.baseFolders.length > 0
+            ? this.getDashboardHtml(config)
+            : this.getNoFolderHtml();
+    }
+
+    /**
+     * Undo the last change of the dashboard configuration, e.g. removing a base folder or an import
+     */
+    public async undoLastChange(): Promise<void> {
+        try {
+            const snapshot = await this.configManager.undo();
+            if (!snapshot) {
+                vscode.window.showInformationMessage('There is no dashboard change to undo.');
+                return;
+            }
+            await this.updateWebview();
+            vscode.window.showInformationMessage(`Undone: ${snapshot.action}`);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to undo the last change: ${error}`);
+        }
+    }
+
+    /**
+     * Pick a snapshot from the history, listed with how it differs from the current configuration, and restore it
+     */
+    public async restoreFromBackup(): Promise<void> {
+        try {
+            const history = this.configManager.getHistory();
+            if (history.length === 0) {
+                vscode.window.showInformationMessage('There are no backups of the dashboard configuration yet.');
+                return;
+            }
+
+            const currentConfig = this.configManager.getConfig();
+            const items = history.slice().reverse().map(snapshot => ({
+                label: `$(history) Before: ${snapshot.action}`,
+                description: `${new Date(snapshot.timestamp).toLocaleString()} (${this.formatRelativeTime(snapshot.timestamp)})`,
+                detail: summarizeConfigDiff(diffConfigs(currentConfig, this.configManager.getRestoredConfig(snapshot))),
+                snapshot: snapshot
+            }));
+            const selected = await vscode.window.showQuickPick(items, {
+                title: 'Restore from Backup',
+                placeHolder: 'Select the configuration to go back to',
+                matchOnDescription: true
+            });
+            if (!selected) {
+                return;
+            }
+
+            const diff = diffConfigs(currentConfig, this.configManager.getRestoredConfig(selected.snapshot));
+            const answer = await vscode.window.showWarningMessage(
+                `Restore the configuration from before "${selected.snapshot.action}"?`,
+                { modal: true, detail: describeConfigDiff(diff) },
+                'Restore'
+            );
+            if (answer !== 'Restore') {
+                return;
+            }
+
+            await this.configManager.restoreSnapshot(selected.snapshot);
+            await this.updateWebview();
+            vscode.window.showInformationMessage('Configuration restored. Run "Undo Last Dashboard Change" to go back.');
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to restore the backup: ${error}`);
+        }
+    }
+
+    /**
+     * Refresh a specific group
+     */
+    public async refreshGroup(groupKey: string): Promise<void> {
+        try {
+            await this.configManager.refreshGroup(groupKey);
+
+            // Update only this group in the webview
+            const { baseFolderName } = this.configManager.splitKey(groupKey);
+            this.applyProjectsChange({ baseFolderName: baseFolderName, groupKey: groupKey });
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to refresh group: ${error}`);
+        }
+    }
+
+    /**
+     * Push a change of the projects data to the webview without re-rendering the whole panel
+     */
+    public applyProjectsChange(event: ProjectsChangeEvent): void {
+        if (!this.panel) {
+            return;
+        }
+
+        const config = this.configManager.getConfig();
+        const baseFolder = this.configManager.getBaseFolder(event.baseFolderName);
+        if (!baseFolder || !config.projectsData) {
+            return;
+        }
+
+        if (event.projectId) {
+            const groupKey = event.projectId.substring(0, event.projectId.lastIndexOf('/'));
+            const project = config.projectsData[groupKey]?.find(candidate => candidate.id === event.projectId);
+            if (project) {
+                this.panel.webview.postMessage({
+                    command: 'updateProject',
+                    projectId: project.id,
+                    html: this.getProjectHtml(project)
+                });
+            }
+        } else if (event.groupKey && event.groupKey in config.projectsData) {
+            const childGroups = this.configManager.getChildGroups(baseFolder, config.projectsData);
+            this.panel.webview.postMessage({
+                command: 'updateGroup',
+                groupKey: event.groupKey,
+                html: this.getGroupHtml(event.groupKey, config.projectsData, childGroups, this.getGroupStates())
+            });
+        } else {
+            // New or removed top level groups change the whole base folder section
+            this.panel.webview.postMessage({
+                command: 'updateBaseFolder',
+                baseFolderName: baseFolder.name,
+                html: this.getBaseFolderHtml(baseFolder, config)
+            });
+        }
+
+        // Cards in the strips show the same projects
+        this.postPinnedSections();
+    }
+
+    /**
+     * Sort the projects of every group by one of the presets of the header, or the groups by name
+     */
+    private async sortProjects(sortBy: string): Promise<void> {
+        try {
+            if (sortBy === 'group-asc' || sortBy === 'group-desc' || sortBy === 'group-manual') {
+                await this.configManager.setGroupSort(sortBy.substring('group-'.length) as 'asc' | 'desc' | 'manual');
+            } else {
+                const preset = SORT_PRESETS.find(candidate => candidate.id === sortBy);
+                if (!preset) {
+                    return;
+                }
+                await this.configManager.setProjectSort([preset.criterion]);
+            }
+            this.postSortChange();
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to sort projects: ${error}`);
+        }
+    }
+
+    /**
+     * Let the user choose the keys the projects are sorted by, one after another. With a group key
+     * only that group is sorted, and it can be set back to the order of the dashboard.
+     */
+    public async chooseProjectSort(groupKey?: string): Promise<void> {
+        const config = this.configManager.getConfig();
+        const currentSort = describeSortCriteria(this.configManager.getProjectSort(config, groupKey));
+        const criteria: SortCriterion[] = [];
+
+        while (criteria.length < SORT_KEYS.length) {
+            const items: (vscode.QuickPickItem & { criterion?: SortCriterion; done?: boolean; reset?: boolean })[] = [];
+            if (criteria.length > 0) {
+                items.push({ label: '$(check) Done', description: describeSortCriteria(criteria), done: true });
+            } else if (groupKey && config.sort?.groupOverrides?.[groupKey]) {
+                items.push({ label: '$(discard) Sort Like the Dashboard', description: describeSortCriteria(this.configManager.getProjectSort(config)), reset: true });
+            }
+            items.push(...SORT_PRESETS
+                .filter(preset => !criteria.some(criterion => criterion.key === preset.criterion.key))
+                .map(preset => ({ label: preset.label, criterion: preset.criterion })));
+
+            const selected = await vscode.window.showQuickPick(items, {
+                title: groupKey ? `Sort ${groupKey}` : 'Sort Projects',
+                placeHolder: criteria.length === 0 ? `Sort by (currently ${currentSort})` : 'Then by, to order projects that are equal so far'
+            });
+            if (!selected) {
+                return;
+            }
+            if (selected.done || selected.reset) {
+                break;
+            }
+            criteria.push(selected.criterion!);
+        }
+
+        try {
+            await this.configManager.setProjectSort(criteria.length > 0 ? criteria : undefined, groupKey);
+            if (groupKey) {
+                this.applyProjectsChange({ baseFolderName: this.configManager.splitKey(groupKey).baseFolderName, groupKey: groupKey });
+            } else {
+                this.postSortChange();
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to sort projects: ${error}`);
+        }
+    }
+
+    /**
+     * Choose the sort keys of a single folder group, asking for the group when none is given
+     */
+    public async sortGroup(groupKey?: string): Promise<void> {
+        groupKey = groupKey || await this.pickFolderGroup('Sort Group');
+        if (groupKey) {
+            await this.chooseProjectSort(groupKey);
+        }
+    }
+
+    /**
+     * Sort by a column of the list view. Clicking the column the projects are already sorted by
+     * reverses the direction. A group with its own order is sorted on its own.
+     */
+    private async sortByColumn(key: SortKey, groupKey?: string): Promise<void> {
+        const config = this.configManager.getConfig();
+        const target = groupKey && config.sort?.groupOverrides?.[groupKey] ? groupKey : undefined;
+        const current = this.configManager.getProjectSort(config, target)[0];
+        const descending = current.key === key
+            ? !current.descending
+            : !!SORT_PRESETS.find(preset => preset.criterion.key === key)?.criterion.descending;
+
+        try {
+            await this.configManager.setProjectSort([descending ? { key: key, descending: true } : { key: key }], target);
+            this.postSortChange();
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to sort projects: ${error}`);
+        }
+    }
+
+    /**
+     * Get the view mode and the list columns from the settings, unknown columns are left out
+     */
+    private getViewSettings(): ViewSettings {
+        const settings = vscode.workspace.getConfiguration('syncableProjectDashboard.view');
+        const mode = settings.get<string>('mode', 'grid');
+        const columns = settings.get<string[]>('columns', Object.keys(LIST_COLUMNS));
+        return {
+            mode: VIEW_MODES.some(viewMode => viewMode.mode === mode) ? mode as ViewMode : 'grid',
+            columns: columns.filter((column): column is ListColumn => column in LIST_COLUMNS)
+        };
+    }
+
+    /**
+     * Switch the dashboard to another view mode. It is saved in the user settings, the dashboard
+     * is re-rendered when they change.
+     */
+    public async setViewMode(mode?: ViewMode): Promise<void> {
+        if (!mode) {
+            const current = this.getViewSettings().mode;
+            const selected = await vscode.window.showQuickPick(
+                VIEW_MODES.map(viewMode => ({ label: viewMode.label, description: viewMode.mode === current ? 'current' : undefined, mode: viewMode.mode })),
+                { title: 'Switch View Mode' }
+            );
+            mode = selected?.mode;
+        }
+        if (mode) {
+            await vscode.workspace.getConfiguration('syncableProjectDashboard.view').update('mode', mode, vscode.ConfigurationTarget.Global);
+        }
+    }
+
+    /**
+     * Choose the columns of the list view, they keep their current order and new ones are appended
+     */
+    public async chooseListColumns(): Promise<void> {
+        const current = this.getViewSettings().columns;
+        const columns = [...current, ...(Object.keys(LIST_COLUMNS) as ListColumn[]).filter(column => !current.includes(column))];
+        const selected = await vscode.window.showQuickPick(
+            columns.map(column => ({ label: LIST_COLUMNS[column].label, picked: current.includes(column), column: column })),
+            { title: 'List Columns', placeHolder: 'Columns shown next to the project name', canPickMany: true }
+        );
+        if (!selected) {
+            return;
+        }
+        await vscode.workspace.getConfiguration('syncableProjectDashboard.view').update(
+            'columns',
+            columns.filter(column => selected.some(item => item.column === column)),
+            vscode.ConfigurationTarget.Global
+        );
+    }
+
+    /**
+     * Save the order of the cards of a group after one was dragged, the webview already shows it
+     */
+    private async reorderProjects(groupKey: string, projectIds: string[]): Promise<void> {
+        try {
+            await this.configManager.setProjectOrder(groupKey, projectIds);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to save the order of the projects: ${error}`);
+        }
+    }
+
+    /**
+     * Save the order of the groups of a group or base folder after one was dragged. Every group
+     * is shown in the custom order from now on, so all sections are updated.
+     */
+    private async reorderGroups(parentKey: string, groupKeys: string[]): Promise<void> {
+        try {
+            await this.configManager.setGroupOrder(parentKey, groupKeys);
+            this.postSortChange();
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to save the order of the groups: ${error}`);
+        }
+    }
+
+    /**
+     * Drop the custom order and sort everything by name again
+     */
+    public async resetOrder(): Promise<void> {
+        try {
+            await this.configManager.resetOrder();
+            this.postSortChange();
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to reset the order: ${error}`);
+        }
+    }
+
+    /**
+     * Drop the custom order and sort of a single group, asking for the group when none is given
+     */
+    public async resetGroupOrder(groupKey?: string): Promise<void> {
+        groupKey = groupKey || await this.pickFolderGroup('Reset Group Order');
+        if (!groupKey) {
+            return;
+        }
+        try {
+            await this.configManager.resetOrder(groupKey);
+            this.applyProjectsChange({ baseFolderName: this.configManager.splitKey(groupKey).baseFolderName, groupKey: groupKey });
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to reset the order: ${error}`);
+        }
     }
 
     /**
-     * Update the webview content
+     * Show the groups and projects in their new order, keeping the search and selection of the webview
      */
-    private async updateWebview(): Promise<void> {
+    private postSortChange(): void {
         if (!this.panel) {
             return;
         }
+        const config = this.configManager.getConfig();
+        this.postBaseFolderSections(config);
+        this.panel.webview.postMessage({ command: 'updateSortControls', html: this.getSortControlsHtml(config) });
+    }
 
-        let config = this.configManager.getConfig();
-        
-        // If no base folder is set, try to get one from the user
-        if (!config.baseProjectsFolder) {
-            await this.handleSelectBaseFolder();
-            config = this.configManager.getConfig();
-            
-            // If user cancelled, show empty state
-            if (!config.baseProjectsFolder) {
-                this.panel.webview.html = this.getNoFolderHtml();
+    /**
+     * Open several projects together as a multi-root workspace and save them as a named project set.
+     * Asks for the projects when none are given.
+     */
+    public async openProjectsAsWorkspace(projectIds?: string[]): Promise<void> {
+        const config = this.configManager.getConfig();
+        if (!projectIds || projectIds.length === 0) {
+            const items = Object.values(config.projectsData || {}).flat()
+                .filter(project => !project.workspaceFile)
+                .map(project => ({ label: project.name, description: this.getGroupLabel(project), projectId: project.id }));
+            const selected = await vscode.window.showQuickPick(items, {
+                title: 'Open Projects as Workspace',
+                placeHolder: 'Select the projects to open together',
+                matchOnDescription: true,
+                canPickMany: true
+            });
+            projectIds = selected?.map(item => item.projectId);
+            if (!projectIds || projectIds.length === 0) {
                 return;
             }
         }
 
-        // If no projects data or it's older than a day, scan projects
-        if (!config.projectsData || !config.lastScanTime || 
-            (Date.now() - config.lastScanTime > 24 * 60 * 60 * 1000)) {
-            try {
-                config = await this.configManager.scanProjects();
-            } catch (error) {
-                vscode.window.showErrorMessage(`Failed to scan projects: ${error}`);
-                this.panel.webview.html = this.getErrorHtml(error);
-                return;
+        const projectNames = projectIds.map(projectId => this.configManager.findProject(config, projectId)?.name || projectId);
+        const name = await vscode.window.showInputBox({
+            title: 'Save Project Set',
+            prompt: 'Name of the project set, it can be reopened from the dashboard',
+            value: projectNames.join(' + '),
+            validateInput: value => {
+                if (!value.trim()) {
+                    return 'Name cannot be empty';
+                }
+                if (config.projectSets?.some(projectSet => projectSet.name === value.trim())) {
+                    return { message: `The project set "${value.trim()}" will be replaced`, severity: vscode.InputBoxValidationSeverity.Warning };
+                }
+                return undefined;
             }
+        });
+        if (!name) {
+            return;
         }
 
-        // Render the dashboard
-        this.panel.webview.html = this.getDashboardHtml(config);
+        try {
+            await this.configManager.saveProjectSet(name, projectIds);
+            this.postPinnedSections();
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to save project set: ${error}`);
+            return;
+        }
+        await this.openProjectSet(name.trim());
     }
 
     /**
-     * Handle selecting the base folder
+     * Write the workspace file of a project set and open it, asking for the set when none is given
      */
-    private async handleSelectBaseFolder(): Promise<void> {
+    public async openProjectSet(name?: string): Promise<void> {
+        const projectSets = this.configManager.getConfig().projectSets || [];
+        name = name || await this.pickProjectSet('Open Project Set');
+        const projectSet = projectSets.find(candidate => candidate.name === name);
+        if (!projectSet) {
+            return;
+        }
+
         try {
-            const folderPath = await this.configManager.setBaseProjectsFolder();
-            if (folderPath) {
-                await this.configManager.scanProjects();
-                await this.updateWebview();
-            }
+            const workspaceUri = await this.configManager.writeProjectSetWorkspace(projectSet);
+            const mode = vscode.workspace.getConfiguration('syncableProjectDashboard.open').get<OpenMode>('defaultMode', 'newWindow');
+            await vscode.commands.executeCommand('vscode.openFolder', workspaceUri, { forceNewWindow: mode !== 'currentWindow' });
         } catch (error) {
-            vscode.window.showErrorMessage(`Failed to set base folder: ${error}`);
+            vscode.window.showErrorMessage(`Failed to open project set: ${error}`);
         }
     }
 
     /**
-     * Rescan projects and update the webview
+     * Delete a project set after confirmation, asking for the set when none is given
      */
-    private async rescanProjects(): Promise<void> {
+    public async deleteProjectSet(name?: string): Promise<void> {
+        name = name || await this.pickProjectSet('Delete Project Set');
+        if (!name) {
+            return;
+        }
+
+        const result = await vscode.window.showWarningMessage(
+            `Delete the project set "${name}"? Its projects stay on the dashboard.`,
+            'Delete', 'Cancel'
+        );
+        if (result !== 'Delete') {
+            return;
+        }
+
         try {
-            await this.configManager.scanProjects();
-            await this.updateWebview();
+            await this.configManager.deleteProjectSet(name);
+            this.postPinnedSections();
         } catch (error) {
-            vscode.window.showErrorMessage(`Failed to scan projects: ${error}`);
+            vscode.window.showErrorMessage(`Failed to delete project set: ${error}`);
         }
     }
 
     /**
-     * Refresh a specific group
+     * Ask for a project set
      */
-    private async refreshGroup(groupName: string): Promise<void> {
-        try {
-            const config = this.configManager.getConfig();
-            if (!config.baseProjectsFolder) {
-                throw new Error('Base projects folder not set');
-            }
-
-            // Ensure the group folder exists
-            const groupPath = path.join(config.baseProjectsFolder, groupName);
-            if (!fs.existsSync(groupPath)) {
-                throw new Error(`Group folder does not exist: ${groupName}`);
-            }
-
-            // Scan the group's projects
-            const projectFolders = fs.readdirSync(groupPath, { withFileTypes: true })
-                .filter(dirent => dirent.isDirectory())
-                .map(dirent => dirent.name);
-
-            const projectInfoList: ProjectInfo[] = [];
-            
-            for (const projectName of projectFolders) {
-                const projectPath = path.join(groupPath, projectName);
-                const color = this.configManager.getProjectColor(projectPath);
-                
-                projectInfoList.push({
-                    name: projectName,
-                    color: color
-                });
-            }
-
-            // Update the config
-            if (!config.projectsData) {
-                config.projectsData = {};
-            }
-            config.projectsData[groupName] = projectInfoList;
-            await this.configManager.saveConfig(config);
+    private async pickProjectSet(title: string): Promise<string | undefined> {
+        const projectSets = this.configManager.getConfig().projectSets || [];
+        if (projectSets.length === 0) {
+            vscode.window.showInformationMessage('There are no project sets yet. Select projects with Ctrl/Cmd+click on the dashboard to create one.');
+            return undefined;
+        }
+        const selected = await vscode.window.showQuickPick(
+            projectSets.map(projectSet => ({ label: projectSet.name, description: `${projectSet.projects.length} projects` })),
+            { title: title, placeHolder: 'Select a project set' }
+        );
+        return selected?.label;
+    }
 
-            // Update the webview
-            await this.updateWebview();
-        } catch (error) {
-            vscode.window.showErrorMessage(`Failed to refresh group: ${error}`);
+    /**
+     * Open a project, asking for it when no project is given
+     */
+    public async openProject(projectId?: string, mode?: OpenMode): Promise<void> {
+        projectId = projectId || await this.pickProject('Open Project');
+        if (projectId) {
+            await this.handleOpenProject(projectId, mode);
         }
     }
 
     /**
-     * Sort projects by different criteria
+     * Handle opening a project, in the mode chosen in the settings when no mode is given
      */
-    private async sortProjects(sortBy: string): Promise<void> {
+    public async handleOpenProject(projectId: string, mode?: OpenMode): Promise<void> {
+        mode = mode || vscode.workspace.getConfiguration('syncableProjectDashboard.open').get<OpenMode>('defaultMode', 'newWindow');
+
+        let fullPath: string;
         try {
-            const config = this.configManager.getConfig();
-            if (!config.projectsData) {
-                return;
+            fullPath = this.configManager.resolvePath(projectId);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to open project: ${error}`);
+            return;
+        }
+        
+        // A terminal or the file manager does not count as working on the project
+        if (mode !== 'terminal' && mode !== 'revealInOS') {
+            try {
+                await this.configManager.recordProjectOpen(projectId);
+                this.postPinnedSections();
+            } catch (error) {
+                console.error(`Error recording the open of ${projectId}:`, error);
             }
-
-            // Sort groups if needed
-            if (sortBy.includes('group')) {
-                // Create a sorted copy of the groups
-                const sortedGroups = Object.keys(config.projectsData).sort();
-                
-                // If descending order is requested, reverse the array
-                if (sortBy === 'group-desc') {
-                    sortedGroups.reverse();
-                }
-                
-                // Create a new sorted projectsData object
-                const sortedProjectsData: { [groupName: string]: ProjectInfo[] } = {};
-                for (const groupName of sortedGroups) {
-                    sortedProjectsData[groupName] = config.projectsData[groupName];
-                }
-                
-                // Replace the original with the sorted version
-                config.projectsData = sortedProjectsData;
-            } else {
-                // For each group, sort the projects
-                for (const groupName of Object.keys(config.projectsData)) {
-                    const projects = config.projectsData[groupName];
-                    if (!projects) {
-                        continue;
+        }
+        
+        const uri = vscode.Uri.file(fullPath);
+        const isWorkspaceFile = !!this.configManager.findProject(this.configManager.getConfig(), projectId)?.workspaceFile;
+        try {
+            switch (mode) {
+                case 'currentWindow':
+                    await vscode.commands.executeCommand('vscode.openFolder', uri, { forceNewWindow: false });
+                    break;
+                case 'addToWorkspace': {
+                    if (isWorkspaceFile) {
+                        vscode.window.showInformationMessage(`${projectId} is a workspace file, it can only be opened.`);
+                        break;
                     }
-
-                    switch (sortBy) {
-                        case 'name-asc':
-                            projects.sort((a, b) => a.name.localeCompare(b.name));
-                            break;
-                        case 'name-desc':
-                            projects.sort((a, b) => b.name.localeCompare(a.name));
-                            break;
+                    const workspaceFolders = vscode.workspace.workspaceFolders || [];
+                    if (workspaceFolders.some(folder => folder.uri.fsPath === uri.fsPath)) {
+                        vscode.window.showInformationMessage(`${projectId} is already part of the workspace.`);
+                    } else if (!vscode.workspace.updateWorkspaceFolders(workspaceFolders.length, 0, { uri: uri })) {
+                        vscode.window.showErrorMessage(`Failed to add ${projectId} to the workspace.`);
                     }
+                    break;
                 }
+                case 'terminal': {
+                    const cwd = isWorkspaceFile ? path.dirname(fullPath) : fullPath;
+                    const terminal = vscode.window.createTerminal({ name: path.basename(fullPath), cwd: cwd });
+                    terminal.show();
+                    break;
+                }
+                case 'revealInOS':
+                    await vscode.commands.executeCommand('revealFileInOS', uri);
+                    break;
+                default:
+                    // Open the project in a new window
+                    await vscode.commands.executeCommand('vscode.openFolder', uri, { forceNewWindow: true });
             }
-
-            // Save the sorted projects
-            await this.configManager.saveConfig(config);
-            
-            // Update the webview
-            await this.updateWebview();
         } catch (error) {
-            vscode.window.showErrorMessage(`Failed to sort projects: ${error}`);
-        }
-    }
-
-    /**
-     * Handle opening a project
-     */
-    private async handleOpenProject(projectPath: string): Promise<void> {
-        const config = this.configManager.getConfig();
-        if (!config.baseProjectsFolder) {
-            return;
+            vscode.window.showErrorMessage(`Failed to open project: ${error}`);
         }
-
-        const [groupName, projectName] = projectPath.split('/');
-        const fullPath = path.join(config.baseProjectsFolder, groupName, projectName);
-        
-        // Open the project in a new window
-        await vscode.commands.executeCommand('vscode.openFolder', vscode.Uri.file(fullPath), { forceNewWindow: true });
     }
 
     /**
      * Handle toggling a group's expanded/collapsed state
      */
-    private async handleToggleGroup(groupName: string, expanded: boolean): Promise<void> {
+    private async handleToggleGroup(groupKey: string, expanded: boolean): Promise<void> {
         try {
-            // Get current config
-            const config = this.configManager.getConfig();
-            
-            // Initialize groupStates if it doesn't exist
-            if (!config.groupStates) {
-                config.groupStates = {};
-            }
-            
-            // Save the new state
-            config.groupStates[groupName] = expanded;
-            
-            // Save config
-            await this.configManager.saveConfig(config);
-
-            // No need to update webview here, as the state is already updated in the UI
+            // The state is already updated in the UI, the tree view follows through the group state event
+            await this.configManager.setGroupExpanded(groupKey, expanded);
         } catch (error) {
             vscode.window.showErrorMessage(`Failed to toggle group: ${error}`);
         }
@@ -290,7 +1568,7 @@ export class ProjectDashboard {
     /**
      * Get saved group expanded states
      */
-    private getGroupStates(): { [groupName: string]: boolean } {
+    private getGroupStates(): { [groupKey: string]: boolean } {
         const config = this.configManager.getConfig();
         return config.groupStates || {};
     }
@@ -415,15 +1693,15 @@ export class ProjectDashboard {
         <body>
             <div class="container">
                 <h1>Error</h1>
-                <div class="error">${error}</div>
-                <button id="selectFolder">Change Base Folder</button>
+                <div class="error">${this.escapeHtml(String(error))}</div>
+                <button id="selectFolder">Change Base Folders</button>
                 <button id="rescan">Try Again</button>
             </div>
             <script>
                 const vscode = acquireVsCodeApi();
                 document.getElementById('selectFolder').addEventListener('click', () => {
                     vscode.postMessage({
-                        command: 'selectBaseFolder'
+                        command: 'manageBaseFolders'
                     });
                 });
                 document.getElementById('rescan').addEventListener('click', () => {
@@ -437,74 +1715,599 @@ export class ProjectDashboard {
     }
 
     /**
-     * Get HTML for the dashboard
+     * Get HTML for the section of a single base folder
+     */
+    private getBaseFolderHtml(baseFolder: BaseFolder, config: ProjectConfig): string {
+        const projectsData = config.projectsData || {};
+        const rootKey = this.configManager.getGroupKey(baseFolder.name, '');
+        const childGroups = this.configManager.getChildGroups(baseFolder, projectsData);
+
+        // Get saved group states
+        const savedGroupStates = this.getGroupStates();
+
+        const groupsHtml = (childGroups[rootKey] || [])
+            .map(groupKey => this.getGroupHtml(groupKey, projectsData, childGroups, savedGroupStates))
+            .join('');
+
+        // Projects directly inside the base folder (flat layouts) are shown without a group header
+        const rootProjectsHtml = this.configManager.getSortedProjects(config, rootKey)
+            .map(project => this.getProjectHtml(project))
+            .join('');
+
+        return `
+            <div class="base-folder" data-base-folder="${this.escapeHtml(baseFolder.name)}">
+                <div class="base-folder-header">
+                    <h2 class="base-folder-name">${this.escapeHtml(baseFolder.name)}</h2>
+                    <span class="base-folder-path">${this.escapeHtml(baseFolder.path)}</span>
+                </div>
+                ${rootProjectsHtml ? this.getProjectListHtml(rootProjectsHtml, { className: 'root-projects', sortGroupKey: rootKey }) : ''}
+                <div class="groups">
+                    ${groupsHtml}
+                </div>
+            </div>
+        `;
+    }
+
+    /**
+     * Get HTML for the selects of the project and group order. Sorting by several keys is chosen
+     * in a Quick Pick and shown as an extra option.
+     */
+    private getSortControlsHtml(config: ProjectConfig): string {
+        const criteria = this.configManager.getProjectSort(config);
+        const selectedPreset = criteria.length === 1 ? getSortPreset(criteria[0]) : undefined;
+        const option = (value: string, label: string, selected: boolean) =>
+            `<option value="${value}" ${selected ? 'selected' : ''}>${this.escapeHtml(label)}</option>`;
+
+        const projectOptions = SORT_PRESETS.map(preset => option(preset.id, preset.label, preset === selectedPreset));
+        if (!selectedPreset) {
+            projectOptions.push(option('multiple', describeSortCriteria(criteria), true));
+        }
+        projectOptions.push(option('choose', 'Sort by Several Keys...', false));
+
+        const groupOrder = config.sort?.groups || 'asc';
+        return `
+            <div class="sort-container">
+                <select id="sortSelect" title="Order of the projects in each group">
+                    ${projectOptions.join('')}
+                </select>
+                <select id="groupSortSelect" title="Order of the groups">
+                    ${option('group-asc', 'Groups (A-Z)', groupOrder === 'asc')}
+                    ${option('group-desc', 'Groups (Z-A)', groupOrder === 'desc')}
+                    ${option('group-manual', 'Groups (Custom Order)', groupOrder === 'manual')}
+                </select>
+            </div>
+        `;
+    }
+
+    /**
+     * Get HTML for the buttons that switch the view mode, and for choosing the columns of the list view
+     */
+    private getViewModeControlsHtml(view: ViewSettings): string {
+        const buttons = VIEW_MODES.map(viewMode =>
+            `<button class="view-mode-button ${viewMode.mode === view.mode ? 'active' : ''}" data-view-mode="${viewMode.mode}" title="${viewMode.label} View">${viewMode.icon}</button>`
+        );
+        return `
+            <div class="view-mode-container">
+                ${buttons.join('')}
+                ${view.mode === 'list' ? '<button id="chooseListColumns" class="secondary-button" title="Choose the columns of the list">Columns...</button>' : ''}
+            </div>
+        `;
+    }
+
+    /**
+     * Get HTML for the notice about base folders synced from other machines that have no folder on this one
+     */
+    private getUnmappedBaseFoldersHtml(config: ProjectConfig): string {
+        const unmappedBaseFolders = config.unmappedBaseFolders || [];
+        if (unmappedBaseFolders.length === 0) {
+            return '';
+        }
+
+        const names = unmappedBaseFolders.map(baseFolder => `<strong>${this.escapeHtml(baseFolder.name)}</strong>`).join(', ');
+        return `
+            <div class="unmapped-base-folders">
+                <span>Synced base folders without a folder on this machine: ${names}</span>
+                <button class="secondary-button map-base-folders">Choose Folders...</button>
+            </div>
+        `;
+    }
+
+    /**
+     * Get HTML for the strips of recently opened and most used projects shown above the groups
+     */
+    private getUsageStripsHtml(config: ProjectConfig): string {
+        const stripSize = vscode.workspace.getConfiguration('syncableProjectDashboard.usage').get<number>('stripSize', 8);
+        const projectUsage = config.projectUsage || {};
+
+        // Only projects that are still on the dashboard are shown
+        const usedProjects = Object.keys(projectUsage)
+            .map(projectId => ({ project: this.configManager.findProject(config, projectId), usage: projectUsage[projectId] }))
+            .filter((entry): entry is { project: ProjectInfo; usage: ProjectUsage } => !!entry.project);
+
+        let stripsHtml = '';
+        if (stripSize > 0 && usedProjects.length > 0) {
+            const recentHtml = [...usedProjects]
+                .sort((a, b) => b.usage.lastOpened - a.usage.lastOpened)
+                .slice(0, stripSize)
+                .map(entry => this.getProjectHtml(entry.project, { subtitle: `opened ${this.formatRelativeTime(entry.usage.lastOpened)}` }))
+                .join('');
+            const mostUsedHtml = [...usedProjects]
+                .sort((a, b) => b.usage.openCount - a.usage.openCount || b.usage.lastOpened - a.usage.lastOpened)
+                .slice(0, stripSize)
+                .map(entry => this.getProjectHtml(entry.project, { subtitle: `${entry.usage.openCount} ${entry.usage.openCount === 1 ? 'open' : 'opens'}` }))
+                .join('');
+
+            stripsHtml = `
+                <div class="usage-strip">
+                    <h2 class="usage-strip-title">Recent</h2>
+                    ${this.getProjectListHtml(recentHtml)}
+                </div>
+                <div class="usage-strip">
+                    <h2 class="usage-strip-title">Most used</h2>
+                    ${this.getProjectListHtml(mostUsedHtml)}
+                </div>
+            `;
+        }
+
+        return stripsHtml;
+    }
+
+    /**
+     * Get HTML for everything shown above the base folders: usage strips, favorites and custom groups.
+     * The container is always rendered so that updates have a place to go.
+     */
+    private getPinnedSectionsHtml(config: ProjectConfig): string {
+        return `
+            <div id="pinnedSections" class="pinned-sections">
+                ${this.getTagBarHtml(config)}
+                ${this.getProjectSetsHtml(config)}
+                ${this.getUsageStripsHtml(config)}
+                ${this.getFavoritesHtml(config)}
+                ${(config.customGroups || []).map(customGroup => this.getCustomGroupHtml(customGroup, config)).join('')}
+            </div>
+        `;
+    }
+
+    /**
+     * Get HTML for the saved project sets, each opens its projects as one workspace
+     */
+    private getProjectSetsHtml(config: ProjectConfig): string {
+        const projectSets = config.projectSets || [];
+        if (projectSets.length === 0) {
+            return '';
+        }
+
+        const projectSetsHtml = projectSets.map(projectSet => {
+            const name = this.escapeHtml(projectSet.name);
+            const projectNames = projectSet.projects
+                .map(projectId => this.configManager.findProject(config, projectId)?.name || `${projectId} (missing)`)
+                .join(', ');
+            return `
+                <div class="project-set" data-project-set="${name}">
+                    <button class="project-set-open" title="Open ${this.escapeHtml(projectNames)} as one workspace">
+                        ⧉ ${name}
+                        <span class="project-count">${projectSet.projects.length}</span>
+                    </button>
+                    <button class="project-set-delete" title="Delete this project set">🗑</button>
+                </div>
+            `;
+        }).join('');
+
+        return `
+            <div class="project-sets">
+                <h2 class="pinned-title">Project Sets</h2>
+                <div class="project-set-list">${projectSetsHtml}</div>
+            </div>
+        `;
+    }
+
+    /**
+     * Get HTML for the favorites section, it is also the drop target for new favorites
+     */
+    private getFavoritesHtml(config: ProjectConfig): string {
+        const projectsHtml = (config.favorites || [])
+            .map(projectId => this.configManager.findProject(config, projectId))
+            .filter((project): project is ProjectInfo => !!project)
+            .map(project => this.getProjectHtml(project, { subtitle: this.getGroupLabel(project), favorite: true, source: { kind: 'favorites' } }))
+            .join('');
+
+        return `
+            <div class="favorites drop-zone" data-drop-target="favorites">
+                <div class="pinned-header">
+                    <h2 class="pinned-title">★ Favorites</h2>
+                    <button class="secondary-button create-custom-group" title="Create a custom group">+ New Group</button>
+                </div>
+                ${projectsHtml
+                    ? this.getProjectListHtml(projectsHtml)
+                    : '<div class="drop-hint">Drag projects here or right-click a project and choose "Add to Favorites"</div>'}
+            </div>
+        `;
+    }
+
+    /**
+     * Get HTML for a custom group, rendered like a folder group with its own actions
+     */
+    private getCustomGroupHtml(customGroup: CustomGroup, config: ProjectConfig): string {
+        const name = this.escapeHtml(customGroup.name);
+        const projects = customGroup.projects
+            .map(projectId => this.configManager.findProject(config, projectId))
+            .filter((project): project is ProjectInfo => !!project);
+        const projectsHtml = projects
+            .map(project => this.getProjectHtml(project, { subtitle: this.getGroupLabel(project), source: { kind: 'custom', name: customGroup.name } }))
+            .join('');
+
+        return `
+            <div class="group custom-group drop-zone ${customGroup.collapsed ? 'collapsed' : ''}" data-custom-group="${name}" data-drop-target="custom">
+                <div class="group-header">
+                    <div class="group-name">
+                        ${name}
+                        <span class="project-count" title="${projects.length} projects">${projects.length}</span>
+                    </div>
+                    <div class="group-actions">
+                        <button class="custom-group-rename" title="Rename this group">✎</button>
+                        <button class="custom-group-delete" title="Delete this group">🗑</button>
+                        <div class="group-toggle" title="Collapse/Expand Group">▼</div>
+                    </div>
+                </div>
+                <div class="group-body">
+                    ${projectsHtml
+                        ? this.getProjectListHtml(projectsHtml)
+                        : '<div class="drop-hint">Drag projects here or right-click a project and choose "Add to Group..."</div>'}
+                </div>
+            </div>
+        `;
+    }
+
+    /**
+     * Describe the folder group a project belongs to, e.g. "work/clients"
+     */
+    private getGroupLabel(project: ProjectInfo): string {
+        return project.id.substring(0, project.id.lastIndexOf('/'));
+    }
+
+    /**
+     * Get HTML for a group accordion, including its nested groups
+     */
+    private getGroupHtml(
+        groupKey: string,
+        projectsData: ProjectsData,
+        childGroups: { [parentKey: string]: string[] },
+        savedGroupStates: { [groupKey: string]: boolean }
+    ): string {
+        const groupName = groupKey.substring(groupKey.lastIndexOf('/') + 1);
+        const projects = this.configManager.getSortedProjects(this.configManager.getConfig(), groupKey, projectsData[groupKey] || []);
+
+        const nestedGroupsHtml = (childGroups[groupKey] || [])
+            .map(childKey => this.getGroupHtml(childKey, projectsData, childGroups, savedGroupStates))
+            .join('');
+        const projectsHtml = projects.map(project => this.getProjectHtml(project)).join('');
+
+        // Check if the group is expanded or collapsed
+        const isExpanded = savedGroupStates[groupKey] === true; // Default to collapsed
+        
+        // Get the project count for this group, including nested groups
+        const projectCount = Object.keys(projectsData)
+            .filter(key => this.configManager.isGroupOrDescendant(key, groupKey))
+            .reduce((count, key) => count + projectsData[key].length, 0);
+
+        // The context menu of the header offers the color actions of the group
+        const vscodeContext = this.escapeHtml(JSON.stringify({ webviewSection: 'group', groupKey: groupKey }));
+
+        return `
+            <div class="group ${isExpanded ? '' : 'collapsed'}" data-group="${this.escapeHtml(groupKey)}">
+                <div class="group-header" data-vscode-context="${vscodeContext}" draggable="true">
+                    <div class="group-name">
+                        ${this.escapeHtml(groupName)}
+                        <span class="project-count" title="${projectCount} projects">${projectCount}</span>
+                    </div>
+                    <div class="group-actions">
+                        <button class="group-refresh" data-group="${this.escapeHtml(groupKey)}" title="Refresh this group">↻</button>
+                        <div class="group-toggle" title="Collapse/Expand Group">▼</div>
+                    </div>
+                </div>
+                <div class="group-body">
+                    ${nestedGroupsHtml ? `<div class="nested-groups">${nestedGroupsHtml}</div>` : ''}
+                    ${projectsHtml ? this.getProjectListHtml(projectsHtml, { sortGroupKey: groupKey }) : ''}
+                </div>
+            </div>
+        `;
+    }
+
+    /**
+     * Get HTML for a single project card
+     */
+    private getProjectHtml(project: ProjectInfo, options: ProjectCardOptions = {}): string {
+        const subtitle = options.subtitle;
+        // Apply custom color if available, otherwise use default. The text is black or white,
+        // whichever contrasts more with the color. The color comes from the project's settings,
+        // so it is written out again from its parsed value and anything else is ignored.
+        const parsedColor = project.color ? parseCssColor(project.color) : undefined;
+        const color = parsedColor ? formatCssColor(parsedColor) : undefined;
+        const textColor = color ? getContrastTextColor(color) || '#ffffff' : undefined;
+        const customStyle = color
+            ? `style="background-color: ${color}; color: ${textColor};"`
+            : '';
+        
+        // A small indicator shows that the project has a custom color, it opens a color picker that
+        // writes the color to the project's settings. Without a color it is shown on hover.
+        const colorIndicator = `
+            <label class="color-indicator ${color ? 'has-color' : ''}" title="${color ? 'This project has a custom theme color, click to change it' : 'Set project color'}">
+                <input type="color" class="project-color-input" tabindex="-1" value="${parsedColor ? formatHexColor(parsedColor) : '#2966a3'}">
+            </label>
+        `;
+        
+        // The context menu offers to star the project or remove it from the custom group it is shown in
+        const config = this.configManager.getConfig();
+        const isFavorite = options.favorite ?? (config.favorites || []).includes(project.id);
+        const customGroup = options.source?.kind === 'custom' ? options.source.name : undefined;
+        const vscodeContext = this.escapeHtml(JSON.stringify({
+            webviewSection: 'project',
+            projectId: project.id,
+            isFavorite: isFavorite,
+            isWorkspaceFile: !!project.workspaceFile,
+            customGroup: customGroup
+        }));
+
+        // Git state is exposed as data attributes for the git filter
+        const git = project.git;
+        const gitAttributes = git
+            ? `data-git="true" data-dirty="${git.dirty}" data-ahead="${git.ahead || 0}" data-behind="${git.behind || 0}"`
+            : '';
+
+        // Detected project types are exposed as data attributes for the search facets
+        const facetValues = (values: string[] | undefined) => this.escapeHtml((values || []).join('|').toLowerCase());
+        const facetAttributes = `data-languages="${facetValues(project.languages)}" data-frameworks="${facetValues(project.frameworks)}"`
+            + ` data-package-manager="${facetValues(project.packageManager ? [project.packageManager] : [])}"`;
+        const tags = this.configManager.getProjectTags(config, project);
+        const tagAttribute = `data-tags="${facetValues(tags)}"`;
+
+        // Values matched by the search qualifiers
+        let projectPath = '';
+        try {
+            projectPath = this.configManager.resolvePath(project.id);
+        } catch {
+            // The base folder has been removed, the card is about to disappear
+        }
+        const searchAttributes = `data-color="${this.escapeHtml(project.color || '')}" data-branch="${this.escapeHtml(git?.branch || '')}"`
+            + ` data-fs-path="${this.escapeHtml(projectPath)}"`;
+        const attributes = `data-path="${this.escapeHtml(project.id)}" data-vscode-context="${vscodeContext}" tabindex="-1" draggable="true" ${project.workspaceFile ? 'data-workspace-file="true"' : ''} ${gitAttributes} ${facetAttributes} ${tagAttribute} ${searchAttributes}`;
+
+        // The list view shows a row with the chosen columns, the color is a stripe next to the name
+        const view = this.getViewSettings();
+        if (view.mode === 'list') {
+            const cells = view.columns.map(column => {
+                switch (column) {
+                    case 'group':
+                        return this.getListCellHtml(this.getGroupLabel(project));
+                    case 'path':
+                        return this.getListCellHtml(projectPath);
+                    case 'branch':
+                        return this.getListCellHtml(git ? `${git.branch || 'detached'}${git.dirty ? ' ●' : ''}` : '');
+                    case 'lastModified':
+                        return project.lastModified
+                            ? this.getListCellHtml(this.formatRelativeTime(project.lastModified), new Date(project.lastModified).toLocaleString())
+                            : this.getListCellHtml('');
+                    case 'size':
+                        return this.getListCellHtml(project.size !== undefined ? this.formatSize(project.size) : '');
+                }
+            });
+            return `
+                <div class="project project-row ${project.workspaceFile ? 'workspace-file' : ''}" ${attributes}>
+                    <div class="list-cell list-name" ${color ? `style="border-left-color: ${color};"` : ''}>
+                        ${colorIndicator}
+                        ${isFavorite ? '<span class="favorite-indicator" title="Favorite">★</span>' : ''}
+                        <span class="project-name" data-name="${this.escapeHtml(project.name)}">${this.escapeHtml(project.name)}</span>
+                        ${subtitle ? `<span class="project-subtitle">${this.escapeHtml(subtitle)}</span>` : ''}
+                    </div>
+                    ${cells.join('')}
+                </div>
+            `;
+        }
+
+        // Compact tiles show only the name
+        return `
+            <div class="project ${project.workspaceFile ? 'workspace-file' : ''}" ${attributes}>
+                <div class="project-inner ${textColor === '#ffffff' ? 'light-text' : ''}" ${customStyle}>
+                    ${colorIndicator}
+                    ${isFavorite ? '<div class="favorite-indicator" title="Favorite">★</div>' : ''}
+                    <div class="project-name" data-name="${this.escapeHtml(project.name)}">${this.escapeHtml(project.name)}</div>
+                    ${view.mode === 'grid' ? `
+                        ${subtitle ? `<div class="project-subtitle">${this.escapeHtml(subtitle)}</div>` : ''}
+                        ${this.getTypeBadgesHtml(project)}
+                        ${this.getTagBadgesHtml(tags)}
+                        ${git ? this.getGitBadgesHtml(git) : ''}
+                    ` : ''}
+                </div>
+            </div>
+        `;
+    }
+
+    /**
+     * Get HTML for the detected languages, frameworks and package manager of a project card.
+     * Clicking a badge filters the dashboard by it.
+     */
+    private getTypeBadgesHtml(project: ProjectInfo): string {
+        const badges: string[] = [];
+
+        if (project.workspaceFile) {
+            badges.push('<span class="badge badge-type" title="Multi-root workspace file, opened as a whole">⧉ workspace</span>');
+        }
+        for (const language of project.languages || []) {
+            const name = this.escapeHtml(language);
+            const icon = this.escapeHtml(LANGUAGE_ICONS[language] || language.substring(0, 2));
+            badges.push(`<span class="badge badge-type badge-language" title="${name}" data-facet="lang:${name}">${icon}</span>`);
+        }
+        for (const framework of project.frameworks || []) {
+            const name = this.escapeHtml(framework);
+            badges.push(`<span class="badge badge-type" title="Framework ${name}" data-facet="framework:${name}">${name}</span>`);
+        }
+        if (project.packageManager) {
+            const name = this.escapeHtml(project.packageManager);
+            badges.push(`<span class="badge badge-type" title="Package manager ${name}" data-facet="pm:${name}">📦 ${name}</span>`);
+        }
+
+        return badges.length > 0 ? `<div class="project-badges">${badges.join('')}</div>` : '';
+    }
+
+    /**
+     * Get HTML for the tags of a project card, clicking a tag filters the dashboard by it
      */
-    private getDashboardHtml(config: ProjectConfig): string {
-        if (!config.baseProjectsFolder || !config.projectsData) {
-            return this.getNoFolderHtml();
+    private getTagBadgesHtml(tags: string[]): string {
+        const badges = tags.map(tag => {
+            const name = this.escapeHtml(tag);
+            return `<span class="badge badge-tag" title="Tag ${name}" data-facet="tag:${name}">#${name}</span>`;
+        });
+        return badges.length > 0 ? `<div class="project-badges">${badges.join('')}</div>` : '';
+    }
+
+    /**
+     * Get HTML for the bar of all tags in use, clicking a tag toggles it in the search
+     */
+    private getTagBarHtml(config: ProjectConfig): string {
+        const tags = [...this.configManager.getAllTags(config)];
+        if (tags.length === 0) {
+            return '';
         }
 
-        // Prepare groups and projects for rendering
-        const groups = Object.keys(config.projectsData);
-        let groupsHtml = '';
+        const chipsHtml = tags.map(([tag, count]) => {
+            const name = this.escapeHtml(tag);
+            return `<button class="tag-chip" data-facet="tag:${name}" data-tag="${this.escapeHtml(tag.toLowerCase())}" title="${count} projects">#${name} <span class="tag-count">${count}</span></button>`;
+        }).join('');
 
-        // Get saved group states
-        const savedGroupStates = this.getGroupStates();
+        return `<div class="tag-bar">${chipsHtml}</div>`;
+    }
 
-        for (const groupName of groups) {
-            const projects = config.projectsData[groupName];
-            let projectsHtml = '';
+    /**
+     * Get HTML for the git badges of a project card
+     */
+    private getGitBadgesHtml(git: GitInfo): string {
+        const badges: string[] = [];
 
-            for (const project of projects) {
-                // Apply custom color if available, otherwise use default
-                const customStyle = project.color 
-                    ? `style="background-color: ${project.color};"` 
-                    : '';
-                
-                // Add a small indicator if the project has a custom color
-                const colorIndicator = project.color 
-                    ? `<div class="color-indicator" title="This project has a custom theme color"></div>` 
-                    : '';
-                
-                projectsHtml += `
-                    <div class="project" data-path="${groupName}/${project.name}">
-                        <div class="project-inner" ${customStyle}>
-                            ${colorIndicator}
-                            <div class="project-name">${project.name}</div>
-                        </div>
-                    </div>
-                `;
-            }
+        const branch = git.branch ? this.escapeHtml(git.branch) : 'detached';
+        const upstream = git.upstream ? ` → ${this.escapeHtml(git.upstream)}` : ' (no upstream)';
+        badges.push(`<span class="badge badge-branch" title="Branch ${branch}${upstream}">⎇ ${branch}</span>`);
 
-            // Check if the group is expanded or collapsed
-            const isExpanded = savedGroupStates[groupName] === true; // Default to collapsed
-            
-            // Get the project count for this group
-            const projectCount = projects.length;
-
-            groupsHtml += `
-                <div class="group ${isExpanded ? '' : 'collapsed'}">
-                    <div class="group-header">
-                        <div class="group-name">
-                            ${groupName}
-                            <span class="project-count" title="${projectCount} projects">${projectCount}</span>
-                        </div>
-                        <div class="group-actions">
-                            <button class="group-refresh" data-group="${groupName}" title="Refresh this group">↻</button>
-                            <div class="group-toggle" title="Collapse/Expand Group">▼</div>
-                        </div>
-                    </div>
-                    <div class="group-projects">
-                        ${projectsHtml}
-                    </div>
+        if (git.ahead) {
+            badges.push(`<span class="badge badge-ahead" title="${git.ahead} commits not pushed">↑${git.ahead}</span>`);
+        }
+        if (git.behind) {
+            badges.push(`<span class="badge badge-behind" title="${git.behind} commits not pulled">↓${git.behind}</span>`);
+        }
+        if (git.dirty) {
+            badges.push(`<span class="badge badge-dirty" title="${git.dirty} uncommitted changes">● ${git.dirty}</span>`);
+        }
+        if (git.lastCommitDate) {
+            const subject = this.escapeHtml(git.lastCommitSubject || '');
+            const date = new Date(git.lastCommitDate).toLocaleString();
+            badges.push(`<span class="badge badge-commit" title="${date}: ${subject}">${this.formatRelativeTime(git.lastCommitDate)}</span>`);
+        }
+
+        return `<div class="project-badges">${badges.join('')}</div>`;
+    }
+
+    /**
+     * Format a timestamp relative to now, e.g. "3d ago"
+     */
+    private formatRelativeTime(timestamp: number): string {
+        const minutes = Math.floor((Date.now() - timestamp) / 60000);
+        if (minutes < 1) {
+            return 'just now';
+        }
+        if (minutes < 60) {
+            return `${minutes}m ago`;
+        }
+        const hours = Math.floor(minutes / 60);
+        if (hours < 24) {
+            return `${hours}h ago`;
+        }
+        const days = Math.floor(hours / 24);
+        if (days < 30) {
+            return `${days}d ago`;
+        }
+        const months = Math.floor(days / 30);
+        return months < 12 ? `${months}mo ago` : `${Math.floor(months / 12)}y ago`;
+    }
+
+    /**
+     * Format a number of bytes, e.g. "1.5 MB"
+     */
+    private formatSize(bytes: number): string {
+        const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+        let size = bytes;
+        let unit = 0;
+        while (size >= 1024 && unit < units.length - 1) {
+            size /= 1024;
+            unit++;
+        }
+        return `${unit === 0 || size >= 10 ? Math.round(size) : size.toFixed(1)} ${units[unit]}`;
+    }
+
+    /**
+     * Get HTML for a cell of the list view, the full text is shown on hover as it may be cut off
+     */
+    private getListCellHtml(text: string, title: string = text): string {
+        return `<div class="list-cell" title="${this.escapeHtml(title)}">${this.escapeHtml(text)}</div>`;
+    }
+
+    /**
+     * Get HTML for the projects of a section. The list view adds a header row, clicking a column
+     * of a folder group sorts its projects by that column.
+     */
+    private getProjectListHtml(projectsHtml: string, options: { className?: string; sortGroupKey?: string } = {}): string {
+        const view = this.getViewSettings();
+        let headerHtml = '';
+        if (view.mode === 'list') {
+            const sortGroupKey = options.sortGroupKey;
+            const criterion = sortGroupKey ? this.configManager.getProjectSort(this.configManager.getConfig(), sortGroupKey)[0] : undefined;
+            const headerCell = (label: string, sortKey: SortKey) => {
+                if (!sortGroupKey) {
+                    return `<div class="list-cell">${label}</div>`;
+                }
+                const indicator = criterion?.key === sortKey ? (criterion.descending ? ' ▼' : ' ▲') : '';
+                return `<div class="list-cell sortable" data-sort-key="${sortKey}" title="Sort by ${label}">${label}${indicator}</div>`;
+            };
+            headerHtml = `
+                <div class="list-header">
+                    ${headerCell('Name', 'name')}
+                    ${view.columns.map(column => headerCell(LIST_COLUMNS[column].label, LIST_COLUMNS[column].sortKey)).join('')}
                 </div>
             `;
         }
+        return `<div class="group-projects ${options.className || ''}" ${options.sortGroupKey ? `data-sort-group="${this.escapeHtml(options.sortGroupKey)}"` : ''}>${headerHtml}${projectsHtml}</div>`;
+    }
+
+    /**
+     * Escape text for use in HTML content and attributes
+     */
+    private escapeHtml(text: string): string {
+        return text
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;')
+            .replace(/'/g, '&#39;');
+    }
+
+    /**
+     * Get HTML for the dashboard
+     */
+    private getDashboardHtml(config: ProjectConfig): string {
+        if (!config.baseFolders || config.baseFolders.length === 0) {
+            return this.getNoFolderHtml();
+        }
+
+        // Render one section per base folder
+        let sectionsHtml = '';
+        for (const baseFolder of config.baseFolders) {
+            sectionsHtml += this.getBaseFolderHtml(baseFolder, config);
+        }
 
         // Format the last scan time
-        const lastScanTime = config.lastScanTime 
-            ? new Date(config.lastScanTime).toLocaleString() 
-            : 'Never';
+        const lastScanTime = this.formatLastScanTime(config);
+
+        // The rows and the header of the list view share the widths of the chosen columns
+        const view = this.getViewSettings();
+        const listColumns = ['minmax(140px, 2fr)', ...view.columns.map(column => LIST_COLUMNS[column].width)].join(' ');
 
         return `<!DOCTYPE html>
         <html lang="en">
@@ -557,8 +2360,36 @@ export class ProjectDashboard {
                 }
                 .sort-container {
                     position: relative;
+                    display: flex;
+                    gap: 5px;
+                }
+                #sortSelect, #groupSortSelect {
+                    padding: 6px 10px;
+                    border-radius: 3px;
+                    border: 1px solid var(--vscode-dropdown-border);
+                    background-color: var(--vscode-dropdown-background);
+                    color: var(--vscode-dropdown-foreground);
+                    font-size: 12px;
+                    appearance: none;
+                    padding-right: 20px;
+                }
+                .view-mode-container {
+                    display: flex;
+                    gap: 2px;
+                }
+                .view-mode-button {
+                    background-color: var(--vscode-button-secondaryBackground, var(--vscode-editor-background));
+                    color: var(--vscode-button-secondaryForeground, var(--vscode-editor-foreground));
+                    padding: 6px 8px;
+                }
+                .view-mode-button.active {
+                    background-color: var(--vscode-button-background);
+                    color: var(--vscode-button-foreground);
+                }
+                .filter-container {
+                    position: relative;
                 }
-                #sortSelect {
+                #gitFilter {
                     padding: 6px 10px;
                     border-radius: 3px;
                     border: 1px solid var(--vscode-dropdown-border);
@@ -568,7 +2399,7 @@ export class ProjectDashboard {
                     appearance: none;
                     padding-right: 20px;
                 }
-                .sort-container::after {
+                .sort-container::after, .filter-container::after {
                     content: '▼';
                     font-size: 8px;
                     position: absolute;
@@ -654,7 +2485,7 @@ export class ProjectDashboard {
                     opacity: 1;
                     color: var(--vscode-button-foreground);
                 }
-                .group-refresh {
+                .group-refresh, .custom-group-rename, .custom-group-delete {
                     background: none;
                     border: none;
                     color: var(--vscode-foreground);
@@ -670,7 +2501,7 @@ export class ProjectDashboard {
                     opacity: 0.6;
                     line-height: 1;
                 }
-                .group-refresh:hover {
+                .group-refresh:hover, .custom-group-rename:hover, .custom-group-delete:hover {
                     background-color: var(--vscode-button-hoverBackground);
                     opacity: 1;
                 }
@@ -680,12 +2511,119 @@ export class ProjectDashboard {
                     gap: 15px;
                     padding: 15px;
                 }
-                .group.collapsed .group-projects {
+                body.view-compact .group-projects {
+                    grid-template-columns: repeat(auto-fill, minmax(120px, 1fr));
+                    gap: 6px;
+                    padding: 8px;
+                }
+                body.view-compact .project-inner {
+                    min-height: 28px;
+                    padding: 2px 10px;
+                    font-size: 12px;
+                }
+                body.view-compact .root-projects {
+                    padding: 0 0 8px 0;
+                }
+                body.view-list .group-projects {
+                    display: block;
+                    padding: 0;
+                }
+                body.view-list .root-projects {
+                    margin-bottom: 15px;
+                    border: 1px solid var(--vscode-panel-border);
+                    border-radius: 3px;
+                }
+                .list-header, .project-row {
+                    display: grid;
+                    grid-template-columns: var(--list-columns);
+                    gap: 10px;
+                    align-items: center;
+                    padding: 0 12px 0 0;
+                    font-size: 12px;
+                }
+                .list-header {
+                    color: var(--vscode-descriptionForeground);
+                    font-weight: bold;
+                    border-bottom: 1px solid var(--vscode-panel-border);
+                    user-select: none;
+                }
+                .list-header .list-cell:first-child {
+                    padding-left: 16px;
+                }
+                .list-cell {
+                    padding: 4px 0;
+                    overflow: hidden;
+                    text-overflow: ellipsis;
+                    white-space: nowrap;
+                }
+                .list-header .sortable {
+                    cursor: pointer;
+                }
+                .list-header .sortable:hover {
+                    color: var(--vscode-foreground);
+                }
+                .project.project-row {
+                    border-radius: 0;
+                    border: none;
+                    border-bottom: 1px solid var(--vscode-panel-border);
+                }
+                .project.project-row:last-child {
+                    border-bottom: none;
+                }
+                .project.project-row:hover {
+                    transform: none;
+                    box-shadow: none;
+                    background-color: var(--vscode-list-hoverBackground);
+                }
+                .project-row .list-name {
+                    position: relative;
+                    display: flex;
+                    align-items: center;
+                    gap: 6px;
+                    padding-left: 12px;
+                    border-left: 4px solid transparent;
+                }
+                .project-row .project-name {
+                    overflow: hidden;
+                    text-overflow: ellipsis;
+                    word-break: normal;
+                }
+                .project-row .color-indicator {
+                    position: relative;
+                    top: auto;
+                    right: auto;
+                    flex-shrink: 0;
+                }
+                .project-row .favorite-indicator {
+                    position: static;
+                }
+                .project-row .project-subtitle {
+                    color: var(--vscode-descriptionForeground);
+                    overflow: hidden;
+                    text-overflow: ellipsis;
+                }
+                .project.project-row.multi-selected {
+                    background-color: var(--vscode-list-activeSelectionBackground, var(--vscode-editor-selectionBackground));
+                    color: var(--vscode-list-activeSelectionForeground, inherit);
+                }
+                .project.project-row.selected {
+                    outline-offset: -2px;
+                }
+                .group.collapsed > .group-body {
                     display: none;
                 }
-                .group.collapsed .group-toggle {
+                .group.collapsed > .group-header .group-toggle {
                     transform: rotate(-90deg);
                 }
+                .nested-groups {
+                    padding: 15px 15px 0 15px;
+                }
+                .nested-groups .group {
+                    margin-bottom: 15px;
+                }
+                .root-projects {
+                    padding: 0 0 15px 0;
+                }
                 .project {
                     border-radius: 5px;
                     overflow: hidden;
@@ -694,7 +2632,7 @@ export class ProjectDashboard {
                     border: 2px solid transparent;
                 }
                 .project-inner {
-                    height: 50px;
+                    min-height: 50px;
                     display: flex;
                     flex-direction: column;
                     justify-content: center;
@@ -705,8 +2643,7 @@ export class ProjectDashboard {
                     text-align: center;
                     position: relative;
                 }
-                .project-inner[style*="background-color"] {
-                    color: #ffffff;
+                .project-inner.light-text {
                     text-shadow: 0 1px 2px rgba(0, 0, 0, 0.5);
                 }
                 .project:hover {
@@ -717,6 +2654,90 @@ export class ProjectDashboard {
                 .project-name {
                     word-break: break-word;
                 }
+                .project-name mark {
+                    background-color: var(--vscode-editor-findMatchHighlightBackground, rgba(234, 92, 0, 0.33));
+                    color: inherit;
+                    border-radius: 2px;
+                }
+                .project:focus {
+                    outline: none;
+                }
+                .project.selected {
+                    outline: 2px solid var(--vscode-focusBorder);
+                    outline-offset: 2px;
+                }
+                body.filtering .group.collapsed > .group-body {
+                    display: block;
+                }
+                body.filtering .group.collapsed > .group-header .group-toggle {
+                    transform: none;
+                }
+                .project-subtitle {
+                    font-size: 11px;
+                    opacity: 0.8;
+                }
+                .project-badges {
+                    display: flex;
+                    flex-wrap: wrap;
+                    justify-content: center;
+                    gap: 4px;
+                    margin-top: 4px;
+                }
+                .badge {
+                    font-size: 10px;
+                    line-height: 1.4;
+                    padding: 0 5px;
+                    border-radius: 8px;
+                    background-color: rgba(0, 0, 0, 0.25);
+                    text-shadow: none;
+                    white-space: nowrap;
+                    max-width: 100%;
+                    overflow: hidden;
+                    text-overflow: ellipsis;
+                }
+                .badge-dirty {
+                    background-color: var(--vscode-gitDecoration-modifiedResourceForeground, #e2c08d);
+                    color: #000000;
+                }
+                .badge-ahead, .badge-behind {
+                    background-color: var(--vscode-gitDecoration-addedResourceForeground, #81b88b);
+                    color: #000000;
+                }
+                .badge-type {
+                    cursor: pointer;
+                }
+                .badge-type:hover {
+                    background-color: rgba(0, 0, 0, 0.45);
+                }
+                .badge-language {
+                    font-weight: bold;
+                }
+                .badge-tag {
+                    cursor: pointer;
+                    background-color: var(--vscode-badge-background);
+                    color: var(--vscode-badge-foreground);
+                }
+                .tag-bar {
+                    display: flex;
+                    flex-wrap: wrap;
+                    gap: 6px;
+                    margin-bottom: 20px;
+                }
+                .tag-chip {
+                    font-size: 11px;
+                    padding: 2px 8px;
+                    border-radius: 10px;
+                    background-color: var(--vscode-badge-background);
+                    color: var(--vscode-badge-foreground);
+                    opacity: 0.75;
+                }
+                .tag-chip.active {
+                    opacity: 1;
+                    outline: 1px solid var(--vscode-focusBorder);
+                }
+                .tag-count {
+                    opacity: 0.7;
+                }
                 .color-indicator {
                     position: absolute;
                     top: 5px;
@@ -727,6 +2748,21 @@ export class ProjectDashboard {
                     background-color: #ffffff;
                     border: 1px solid rgba(0, 0, 0, 0.2);
                     box-shadow: 0 1px 2px rgba(0, 0, 0, 0.1);
+                    cursor: pointer;
+                    opacity: 0;
+                }
+                .color-indicator.has-color, .project:hover .color-indicator {
+                    opacity: 1;
+                }
+                .project-color-input {
+                    position: absolute;
+                    inset: 0;
+                    width: 100%;
+                    height: 100%;
+                    padding: 0;
+                    border: none;
+                    opacity: 0;
+                    cursor: pointer;
                 }
                 .info {
                     margin-top: 20px;
@@ -757,18 +2793,155 @@ export class ProjectDashboard {
                     color: var(--vscode-button-secondaryForeground, var(--vscode-editor-foreground));
                     border: 1px solid var(--vscode-button-border, var(--vscode-panel-border));
                     font-size: 11px;
-                    padding: 4px 8px;
+                    padding: 4px 8px;
+                }
+                
+                .secondary-button:hover {
+                    background-color: var(--vscode-button-secondaryHoverBackground, var(--vscode-list-hoverBackground));
+                }
+                
+                h1 {
+                    color: var(--vscode-editor-foreground);
+                    font-size: 24px;
+                    margin: 0;
+                }
+                .base-folder {
+                    margin-bottom: 30px;
+                }
+                .usage-strip, .favorites {
+                    margin-bottom: 20px;
+                }
+                .pinned-sections > .custom-group {
+                    margin-bottom: 20px;
+                }
+                .pinned-header {
+                    display: flex;
+                    align-items: center;
+                    justify-content: space-between;
+                    margin-bottom: 8px;
+                }
+                .pinned-title {
+                    color: var(--vscode-editor-foreground);
+                    font-size: 14px;
+                    margin: 0;
+                }
+                .unmapped-base-folders {
+                    display: flex;
+                    align-items: center;
+                    justify-content: space-between;
+                    gap: 10px;
+                    margin-bottom: 20px;
+                    padding: 8px 12px;
+                    border: 1px solid var(--vscode-inputValidation-infoBorder, var(--vscode-panel-border));
+                    background-color: var(--vscode-inputValidation-infoBackground, transparent);
+                    border-radius: 4px;
+                    font-size: 12px;
+                }
+                .project-sets {
+                    margin-bottom: 20px;
+                }
+                .project-set-list {
+                    display: flex;
+                    flex-wrap: wrap;
+                    gap: 8px;
+                    margin-top: 8px;
+                }
+                .project-set {
+                    display: flex;
+                    align-items: center;
+                    border: 1px solid var(--vscode-panel-border);
+                    border-radius: 4px;
+                }
+                .project-set-open, .project-set-delete {
+                    background: none;
+                    border: none;
+                    color: var(--vscode-foreground);
+                    cursor: pointer;
+                    padding: 4px 8px;
+                }
+                .project-set-open:hover, .project-set-delete:hover {
+                    background-color: var(--vscode-list-hoverBackground);
+                }
+                .project-set-delete {
+                    opacity: 0.6;
+                }
+                .project.multi-selected > .project-inner {
+                    outline: 2px solid var(--vscode-focusBorder);
+                    box-shadow: 0 0 0 4px var(--vscode-editor-selectionBackground);
+                }
+                .selection-bar {
+                    display: none;
+                    position: sticky;
+                    bottom: 10px;
+                    align-items: center;
+                    gap: 10px;
+                    padding: 8px 12px;
+                    margin-top: 10px;
+                    background-color: var(--vscode-editorWidget-background);
+                    border: 1px solid var(--vscode-widget-border, var(--vscode-panel-border));
+                    border-radius: 4px;
+                    box-shadow: 0 2px 8px var(--vscode-widget-shadow, rgba(0, 0, 0, 0.3));
+                }
+                .selection-bar.visible {
+                    display: flex;
+                }
+                .drop-hint {
+                    font-size: 12px;
+                    color: var(--vscode-descriptionForeground);
+                    padding: 10px;
+                    border: 1px dashed var(--vscode-panel-border);
+                    border-radius: 4px;
+                }
+                .drag-over {
+                    outline: 2px dashed var(--vscode-focusBorder);
+                    outline-offset: 2px;
+                }
+                .project.drop-before {
+                    box-shadow: -6px 0 0 -2px var(--vscode-focusBorder);
+                }
+                .project.drop-after {
+                    box-shadow: 6px 0 0 -2px var(--vscode-focusBorder);
+                }
+                .project-row.drop-before {
+                    box-shadow: 0 -2px 0 0 var(--vscode-focusBorder);
+                }
+                .project-row.drop-after {
+                    box-shadow: 0 2px 0 0 var(--vscode-focusBorder);
+                }
+                .group.drop-before {
+                    box-shadow: 0 -4px 0 -1px var(--vscode-focusBorder);
+                }
+                .group.drop-after {
+                    box-shadow: 0 4px 0 -1px var(--vscode-focusBorder);
+                }
+                .favorite-indicator {
+                    position: absolute;
+                    top: 2px;
+                    left: 5px;
+                    font-size: 11px;
                 }
-                
-                .secondary-button:hover {
-                    background-color: var(--vscode-button-secondaryHoverBackground, var(--vscode-list-hoverBackground));
+                .usage-strip-title {
+                    color: var(--vscode-editor-foreground);
+                    font-size: 14px;
+                    margin: 0 0 8px 0;
                 }
-                
-                h1 {
+                .base-folder-header {
+                    display: flex;
+                    align-items: baseline;
+                    gap: 10px;
+                    margin-bottom: 10px;
+                    flex-wrap: wrap;
+                }
+                .base-folder-name {
                     color: var(--vscode-editor-foreground);
-                    font-size: 24px;
+                    font-size: 16px;
                     margin: 0;
                 }
+                .base-folder-path {
+                    font-size: 12px;
+                    color: var(--vscode-descriptionForeground);
+                    word-break: break-all;
+                }
                 .group-actions > * {
                     cursor: pointer;
                 }
@@ -797,7 +2970,7 @@ export class ProjectDashboard {
                         align-items: stretch;
                     }
                     
-                    .search-container, .sort-container, .button-container {
+                    .search-container, .sort-container, .filter-container, .button-container {
                         width: 100%;
                     }
                     
@@ -807,7 +2980,7 @@ export class ProjectDashboard {
                         gap: 5px;
                     }
                     
-                    #sortSelect {
+                    #sortSelect, #groupSortSelect, #gitFilter {
                         width: 100%;
                     }
                     
@@ -827,35 +3000,46 @@ export class ProjectDashboard {
                 }
             </style>
         </head>
-        <body>
+        <body class="view-${view.mode}" style="--list-columns: ${listColumns};" data-vscode-context='{"preventDefaultContextMenuItems": true}'>
             <div class="container">
                 <div class="header">
                     <h1>📌 Project Dashboard</h1>
                     <div class="controls">
                         <div class="search-container">
-                            <input type="text" id="searchInput" placeholder="Search projects...">
+                            <input type="text" id="searchInput" placeholder="Search projects... (group:, tag:, lang:, -exclude)" title="Fuzzy search by name. Narrow down with group:, path:, color:, branch:, tag:, lang:, framework: or pm:, exclude with a leading -, and match exact phrases with quotes. Arrow keys move between results, Enter opens one.">
                         </div>
-                        <div class="sort-container">
-                            <select id="sortSelect">
-                                <option value="group-asc">Groups (A-Z)</option>
-                                <option value="group-desc">Groups (Z-A)</option>
-                                <option value="name-asc">Projects (A-Z)</option>
-                                <option value="name-desc">Projects (Z-A)</option>
+                        ${this.getSortControlsHtml(config)}
+                        ${this.getViewModeControlsHtml(view)}
+                        <div class="filter-container">
+                            <select id="gitFilter" title="Filter by git status">
+                                <option value="all">All Projects</option>
+                                <option value="dirty">Uncommitted Changes</option>
+                                <option value="ahead">Unpushed Commits</option>
+                                <option value="behind">Behind Upstream</option>
+                                <option value="clean">Clean Repositories</option>
+                                <option value="no-git">Not Under Git</option>
                             </select>
                         </div>
                         <div class="button-container">
                             <button id="rescan">Rescan Projects</button>
-                            <button id="changeFolder">Change Base Folder</button>
+                            <button id="changeFolder">Change Base Folders</button>
                         </div>
                     </div>
                 </div>
-                <div class="groups">
-                    ${groupsHtml}
+                ${this.getUnmappedBaseFoldersHtml(config)}
+                ${this.getPinnedSectionsHtml(config)}
+                <div class="base-folders" data-drop-target="folders">
+                    ${sectionsHtml}
+                </div>
+                <div id="selectionBar" class="selection-bar">
+                    <span id="selectionCount"></span>
+                    <button id="openSelection" title="Open the selected projects as one workspace and save them as a project set">Open as Workspace</button>
+                    <button id="clearSelection" class="secondary-button">Clear Selection</button>
                 </div>
                 <div class="info">
                     <div class="info-details">
-                        <div>Base Folder: ${config.baseProjectsFolder}</div>
-                        <div>Last Scan: ${lastScanTime}</div>
+                        <div>Base Folders: ${config.baseFolders.length}</div>
+                        <div>Last Scan: <span id="lastScanTime">${lastScanTime}</span></div>
                     </div>
                     <div class="info-actions">
                         <button id="exportConfig" class="secondary-button">Export Config</button>
@@ -866,52 +3050,306 @@ export class ProjectDashboard {
             <script>
                 const vscode = acquireVsCodeApi();
                 
-                // Toggle group collapse
-                document.querySelectorAll('.group-header').forEach(header => {
-                    header.addEventListener('click', (e) => {
-                        // Don't toggle if clicking on the refresh button
-                        if (e.target.closest('.group-refresh')) {
-                            return;
-                        }
-                        
+                // Clicks are handled on the document so that groups and projects
+                // replaced by incremental updates keep working
+                document.addEventListener('click', (e) => {
+                    // The color indicator opens the color picker instead of the project
+                    if (e.target.closest('.color-indicator')) {
+                        return;
+                    }
+                    
+                    // Switch the view mode, choose the columns of the list view or sort by one of them
+                    const viewModeButton = e.target.closest('.view-mode-button');
+                    if (viewModeButton) {
+                        vscode.postMessage({ command: 'setViewMode', mode: viewModeButton.getAttribute('data-view-mode') });
+                        return;
+                    }
+                    if (e.target.closest('#chooseListColumns')) {
+                        vscode.postMessage({ command: 'chooseListColumns' });
+                        return;
+                    }
+                    const sortableColumn = e.target.closest('.list-header .sortable');
+                    if (sortableColumn) {
+                        vscode.postMessage({
+                            command: 'sortByColumn',
+                            key: sortableColumn.getAttribute('data-sort-key'),
+                            groupKey: sortableColumn.closest('.group-projects').getAttribute('data-sort-group')
+                        });
+                        return;
+                    }
+                    
+                    // Filter by a tag, detected language, framework or package manager
+                    const facetElement = e.target.closest('[data-facet]');
+                    if (facetElement) {
+                        toggleSearchFacet(facetElement.getAttribute('data-facet'));
+                        return;
+                    }
+                    
+                    // Refresh individual group
+                    const refreshButton = e.target.closest('.group-refresh');
+                    if (refreshButton) {
+                        vscode.postMessage({
+                            command: 'refreshGroup',
+                            groupKey: refreshButton.getAttribute('data-group')
+                        });
+                        return;
+                    }
+                    
+                    // Custom group actions
+                    if (e.target.closest('.create-custom-group')) {
+                        vscode.postMessage({ command: 'createCustomGroup' });
+                        return;
+                    }
+                    const customGroupAction = e.target.closest('.custom-group-rename, .custom-group-delete');
+                    if (customGroupAction) {
+                        vscode.postMessage({
+                            command: customGroupAction.classList.contains('custom-group-rename') ? 'renameCustomGroup' : 'deleteCustomGroup',
+                            name: customGroupAction.closest('.custom-group').getAttribute('data-custom-group')
+                        });
+                        return;
+                    }
+                    
+                    // Base folders synced from other machines
+                    if (e.target.closest('.map-base-folders')) {
+                        vscode.postMessage({ command: 'manageBaseFolders' });
+                        return;
+                    }
+                    
+                    // Project set actions
+                    const projectSetAction = e.target.closest('.project-set-open, .project-set-delete');
+                    if (projectSetAction) {
+                        vscode.postMessage({
+                            command: projectSetAction.classList.contains('project-set-open') ? 'openProjectSet' : 'deleteProjectSet',
+                            name: projectSetAction.closest('.project-set').getAttribute('data-project-set')
+                        });
+                        return;
+                    }
+                    
+                    // Toggle group collapse
+                    const header = e.target.closest('.group-header');
+                    if (header) {
                         const group = header.parentElement;
                         group.classList.toggle('collapsed');
                         
-                        // Get group name (without the count badge)
-                        const groupNameElement = header.querySelector('.group-name');
-                        const groupNameText = groupNameElement.childNodes[0].nodeValue.trim();
-                        
                         // Save the new state
                         const isExpanded = !group.classList.contains('collapsed');
+                        if (group.classList.contains('custom-group')) {
+                            vscode.postMessage({
+                                command: 'toggleCustomGroup',
+                                name: group.getAttribute('data-custom-group'),
+                                expanded: isExpanded
+                            });
+                            return;
+                        }
                         vscode.postMessage({
                             command: 'toggleGroup',
-                            groupName: groupNameText,
+                            groupKey: group.getAttribute('data-group'),
                             expanded: isExpanded
                         });
-                    });
+                        return;
+                    }
+                    
+                    // Ctrl/Cmd+click and Shift+click select projects, Alt+click or no modifier opens one
+                    const project = e.target.closest('.project');
+                    if (project) {
+                        if (e.shiftKey) {
+                            selectProjectRange(project);
+                        } else if (e.ctrlKey || e.metaKey) {
+                            toggleProjectSelection(project);
+                        } else {
+                            openProject(project, e);
+                        }
+                    }
                 });
                 
-                // Refresh individual group
-                document.querySelectorAll('.group-refresh').forEach(button => {
-                    button.addEventListener('click', (e) => {
-                        e.stopPropagation(); // Prevent group toggle
-                        const groupName = button.getAttribute('data-group');
+                // Write the color picked on a card to the project's settings
+                document.addEventListener('change', (e) => {
+                    if (e.target.classList.contains('project-color-input')) {
                         vscode.postMessage({
-                            command: 'refreshGroup',
-                            groupName: groupName
+                            command: 'setProjectColor',
+                            projectId: e.target.closest('.project').getAttribute('data-path'),
+                            color: e.target.value
                         });
-                    });
+                    }
                 });
                 
-                // Open project
-                document.querySelectorAll('.project').forEach(project => {
-                    project.addEventListener('click', () => {
-                        const projectPath = project.getAttribute('data-path');
-                        vscode.postMessage({
-                            command: 'openProject',
-                            projectPath: projectPath
-                        });
+                // Drag projects into the favorites or custom groups, or back onto the folder groups to remove them
+                function getVirtualGroup(element) {
+                    const dropTarget = element && element.closest('[data-drop-target]');
+                    switch (dropTarget && dropTarget.getAttribute('data-drop-target')) {
+                        case 'favorites':
+                            return { kind: 'favorites' };
+                        case 'custom':
+                            return { kind: 'custom', name: dropTarget.getAttribute('data-custom-group') };
+                        default:
+                            return null;
+                    }
+                }
+                
+                let draggedProject = null;
+                let draggedGroup = null;
+                document.addEventListener('dragstart', (e) => {
+                    const groupHeader = e.target.closest && e.target.closest('.group[data-group] > .group-header');
+                    if (groupHeader) {
+                        draggedGroup = groupHeader.parentElement;
+                        e.dataTransfer.effectAllowed = 'move';
+                        e.dataTransfer.setData('text/plain', draggedGroup.getAttribute('data-group'));
+                        return;
+                    }
+                    const project = e.target.closest && e.target.closest('.project');
+                    if (!project) {
+                        return;
+                    }
+                    draggedProject = { projectId: project.getAttribute('data-path'), from: getVirtualGroup(project), element: project };
+                    e.dataTransfer.effectAllowed = 'move';
+                    e.dataTransfer.setData('text/plain', draggedProject.projectId);
+                });
+                document.addEventListener('dragend', () => {
+                    draggedProject = null;
+                    draggedGroup = null;
+                    document.querySelectorAll('.drag-over').forEach(element => element.classList.remove('drag-over'));
+                    clearDropPosition();
+                });
+                
+                // Cards dragged onto another card of their folder group and groups dragged onto
+                // another group of the same parent are put in a custom order
+                function getReorderTarget(e) {
+                    if (draggedGroup) {
+                        const group = e.target.closest('.group[data-group]');
+                        return group && group !== draggedGroup && group.parentElement === draggedGroup.parentElement ? group : null;
+                    }
+                    if (!draggedProject || draggedProject.from || !draggedProject.element.closest('.base-folders')) {
+                        return null;
+                    }
+                    const project = e.target.closest('.project');
+                    return project && project !== draggedProject.element && project.parentElement === draggedProject.element.parentElement ? project : null;
+                }
+                
+                // Cards are laid out in rows, groups and the rows of the list view in a column
+                function isDropAfter(e, target) {
+                    const rect = target.getBoundingClientRect();
+                    const vertical = draggedGroup || target.classList.contains('project-row');
+                    return vertical ? e.clientY > rect.top + rect.height / 2 : e.clientX > rect.left + rect.width / 2;
+                }
+                
+                function clearDropPosition() {
+                    document.querySelectorAll('.drop-before, .drop-after').forEach(element => element.classList.remove('drop-before', 'drop-after'));
+                }
+                
+                document.addEventListener('dragover', (e) => {
+                    const reorderTarget = getReorderTarget(e);
+                    clearDropPosition();
+                    if (reorderTarget) {
+                        e.preventDefault();
+                        document.querySelectorAll('.drag-over').forEach(element => element.classList.remove('drag-over'));
+                        reorderTarget.classList.add(isDropAfter(e, reorderTarget) ? 'drop-after' : 'drop-before');
+                        return;
+                    }
+                    const dropTarget = draggedProject && e.target.closest('[data-drop-target]');
+                    if (!dropTarget) {
+                        return;
+                    }
+                    // Folder groups only take projects coming from the favorites or a custom group
+                    if (dropTarget.getAttribute('data-drop-target') === 'folders' && !draggedProject.from) {
+                        return;
+                    }
+                    e.preventDefault();
+                    document.querySelectorAll('.drag-over').forEach(element => element !== dropTarget && element.classList.remove('drag-over'));
+                    dropTarget.classList.add('drag-over');
+                });
+                document.addEventListener('drop', (e) => {
+                    const reorderTarget = getReorderTarget(e);
+                    if (reorderTarget) {
+                        e.preventDefault();
+                        const dragged = draggedGroup || draggedProject.element;
+                        reorderTarget.insertAdjacentElement(isDropAfter(e, reorderTarget) ? 'afterend' : 'beforebegin', dragged);
+                        const container = dragged.parentElement;
+                        if (draggedGroup) {
+                            const parent = container.closest('.group[data-group], .base-folder');
+                            vscode.postMessage({
+                                command: 'reorderGroups',
+                                parentKey: parent.getAttribute('data-group') || parent.getAttribute('data-base-folder'),
+                                groupKeys: Array.from(container.children).map(group => group.getAttribute('data-group'))
+                            });
+                        } else {
+                            const group = container.closest('.group[data-group], .base-folder');
+                            vscode.postMessage({
+                                command: 'reorderProjects',
+                                groupKey: group.getAttribute('data-group') || group.getAttribute('data-base-folder'),
+                                projectIds: Array.from(container.querySelectorAll(':scope > .project')).map(project => project.getAttribute('data-path'))
+                            });
+                        }
+                        return;
+                    }
+                    const dropTarget = draggedProject && e.target.closest('[data-drop-target]');
+                    if (!dropTarget) {
+                        return;
+                    }
+                    e.preventDefault();
+                    const to = getVirtualGroup(dropTarget);
+                    const from = draggedProject.from;
+                    const isSameGroup = from && to && from.kind === to.kind && from.name === to.name;
+                    if (!isSameGroup && (from || to)) {
+                        vscode.postMessage({ command: 'moveProject', projectId: draggedProject.projectId, from: from, to: to });
+                    }
+                });
+                
+                // Replace the element matching the selector, or remove it when there is no new HTML.
+                // Missing elements are appended to the container matching containerSelector, if given.
+                function replaceElement(selector, html, containerSelector) {
+                    const elements = document.querySelectorAll(selector);
+                    if (elements.length === 0) {
+                        const container = containerSelector && document.querySelector(containerSelector);
+                        if (container && html) {
+                            container.insertAdjacentHTML('beforeend', html);
+                            applyFilter();
+                            updateSelection();
+                        }
+                        return;
+                    }
+                    elements.forEach(element => {
+                        if (html) {
+                            element.outerHTML = html;
+                        } else {
+                            element.remove();
+                        }
                     });
+                    applyFilter();
+                    updateSelection();
+                }
+                
+                // Incremental updates pushed by the extension
+                window.addEventListener('message', (event) => {
+                    const message = event.data;
+                    switch (message.command) {
+                        case 'updateProject':
+                            replaceElement('.project[data-path="' + CSS.escape(message.projectId) + '"]', message.html);
+                            break;
+                        case 'updateGroup':
+                            // Groups found by a running scan are added to their base folder section
+                            replaceElement(
+                                '.group[data-group="' + CSS.escape(message.groupKey) + '"]',
+                                message.html,
+                                message.baseFolderName && '.base-folder[data-base-folder="' + CSS.escape(message.baseFolderName) + '"] > .groups'
+                            );
+                            break;
+                        case 'updateBaseFolder':
+                            replaceElement('.base-folder[data-base-folder="' + CSS.escape(message.baseFolderName) + '"]', message.html, '.base-folders');
+                            break;
+                        case 'updatePinnedSections':
+                            replaceElement('#pinnedSections', message.html);
+                            break;
+                        case 'updateLastScan':
+                            document.getElementById('lastScanTime').textContent = message.text;
+                            break;
+                        case 'updateSortControls':
+                            replaceElement('.sort-container', message.html);
+                            break;
+                        case 'setGroupExpanded':
+                            document.querySelectorAll('.group[data-group="' + CSS.escape(message.groupKey) + '"]')
+                                .forEach(group => group.classList.toggle('collapsed', !message.expanded));
+                            break;
+                    }
                 });
                 
                 // Rescan projects
@@ -921,10 +3359,10 @@ export class ProjectDashboard {
                     });
                 });
                 
-                // Change base folder
+                // Add or remove base folders
                 document.getElementById('changeFolder').addEventListener('click', () => {
                     vscode.postMessage({
-                        command: 'selectBaseFolder'
+                        command: 'manageBaseFolders'
                     });
                 });
                 
@@ -942,8 +3380,17 @@ export class ProjectDashboard {
                     });
                 });
                 
-                // Sort projects
-                document.getElementById('sortSelect').addEventListener('change', (e) => {
+                // Sort projects and groups, the sort controls are replaced when the order is saved
+                document.addEventListener('change', (e) => {
+                    if (e.target.id !== 'sortSelect' && e.target.id !== 'groupSortSelect') {
+                        return;
+                    }
+                    if (e.target.value === 'choose') {
+                        // Keep showing the current order until the keys have been chosen
+                        e.target.value = e.target.querySelector('option[selected]').value;
+                        vscode.postMessage({ command: 'chooseProjectSort' });
+                        return;
+                    }
                     vscode.postMessage({
                         command: 'sortProjects',
                         sortBy: e.target.value
@@ -951,20 +3398,182 @@ export class ProjectDashboard {
                 });
                 
                 // Search/filter projects
-                document.getElementById('searchInput').addEventListener('input', (e) => {
-                    const searchTerm = e.target.value.toLowerCase();
+                function matchesGitFilter(project, gitFilter) {
+                    const isGit = project.hasAttribute('data-git');
+                    const dirty = Number(project.getAttribute('data-dirty') || 0);
+                    const ahead = Number(project.getAttribute('data-ahead') || 0);
+                    const behind = Number(project.getAttribute('data-behind') || 0);
+                    switch (gitFilter) {
+                        case 'dirty':
+                            return dirty > 0;
+                        case 'ahead':
+                            return ahead > 0;
+                        case 'behind':
+                            return behind > 0;
+                        case 'clean':
+                            return isGit && dirty === 0 && ahead === 0 && behind === 0;
+                        case 'no-git':
+                            return !isGit;
+                        default:
+                            return true;
+                    }
+                }
+                
+                // Search queries combine fuzzy matched words, "quoted phrases", qualifiers such as
+                // group:, color:, branch:, lang:, path: or tag:, and negation with a leading "-"
+                function splitValues(value) {
+                    return (value || '').split('|');
+                }
+                
+                const qualifiers = {
+                    group: project => [project.getAttribute('data-path').replace(/\\/[^/]*$/, '')],
+                    path: project => [project.getAttribute('data-path'), project.getAttribute('data-fs-path')],
+                    color: project => [project.getAttribute('data-color')],
+                    branch: project => [project.getAttribute('data-branch')],
+                    lang: project => splitValues(project.getAttribute('data-languages')),
+                    language: project => splitValues(project.getAttribute('data-languages')),
+                    framework: project => splitValues(project.getAttribute('data-frameworks')),
+                    pm: project => splitValues(project.getAttribute('data-package-manager')),
+                    tag: project => splitValues(project.getAttribute('data-tags'))
+                };
+                
+                ${parseQuery.toString()}
+                
+                // Qualifier values match when they contain the searched value, "none" matches projects without a value
+                function matchesQualifier(project, term) {
+                    const values = qualifiers[term.qualifier](project)
+                        .filter(Boolean)
+                        .map(value => value.toLowerCase());
+                    if (term.value === 'none') {
+                        return values.length === 0;
+                    }
+                    return values.some(value => value.includes(term.value));
+                }
+                
+                ${isWordStart.toString()}
+                
+                ${fuzzyMatch.toString()}
+                
+                // Check a project against every term, resolves to the ranking score and the name characters to highlight
+                function evaluateQuery(project, terms) {
+                    const name = project.querySelector('.project-name').getAttribute('data-name');
+                    const lowerName = name.toLowerCase();
+                    const result = { score: 0, indices: new Set() };
+                    
+                    for (const term of terms) {
+                        if (term.qualifier) {
+                            if (matchesQualifier(project, term) === term.negated) {
+                                return null;
+                            }
+                        } else if (term.negated) {
+                            if (lowerName.includes(term.value)) {
+                                return null;
+                            }
+                        } else if (term.isPhrase) {
+                            const start = lowerName.indexOf(term.value);
+                            if (start === -1) {
+                                return null;
+                            }
+                            result.score += 100;
+                            for (let index = start; index < start + term.value.length; index++) {
+                                result.indices.add(index);
+                            }
+                        } else {
+                            const match = fuzzyMatch(name, term.value);
+                            if (!match) {
+                                return null;
+                            }
+                            result.score += match.score;
+                            match.indices.forEach(index => result.indices.add(index));
+                        }
+                    }
+                    return result;
+                }
+                
+                function escapeText(text) {
+                    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+                }
+                
+                // Wrap the matched characters of the project name in <mark> elements
+                function highlightName(project, indices) {
+                    const element = project.querySelector('.project-name');
+                    const name = element.getAttribute('data-name');
+                    if (!indices || indices.size === 0) {
+                        element.textContent = name;
+                        return;
+                    }
+                    let html = '';
+                    let isMarked = false;
+                    for (let index = 0; index < name.length; index++) {
+                        const shouldMark = indices.has(index);
+                        if (shouldMark !== isMarked) {
+                            html += shouldMark ? '<mark>' : '</mark>';
+                            isMarked = shouldMark;
+                        }
+                        html += escapeText(name[index]);
+                    }
+                    element.innerHTML = html + (isMarked ? '</mark>' : '');
+                }
+                
+                // Add a facet such as "tag:backend" to the search, or remove it when it is already there
+                function toggleSearchFacet(facet) {
+                    const searchInput = document.getElementById('searchInput');
+                    const term = /\\s/.test(facet) ? facet.replace(':', ':"') + '"' : facet;
+                    const terms = searchInput.value.match(/-?\\S+:"[^"]*"?|"[^"]*"?|\\S+/g) || [];
+                    const index = terms.findIndex(existing => existing.toLowerCase() === term.toLowerCase());
+                    if (index === -1) {
+                        terms.push(term);
+                    } else {
+                        terms.splice(index, 1);
+                    }
+                    searchInput.value = terms.join(' ');
+                    applyFilter();
+                }
+                
+                // The best ranked visible project, opened when Enter is pressed in the search box,
+                // and the project selected with the arrow keys
+                let bestProject = null;
+                let selectedProject = null;
+                
+                function applyFilter() {
+                    const gitFilter = document.getElementById('gitFilter').value;
+                    const terms = parseQuery(document.getElementById('searchInput').value, Object.keys(qualifiers));
+                    const isRanking = terms.some(term => !term.qualifier && !term.negated);
+                    const isFiltering = terms.length > 0 || gitFilter !== 'all';
+                    
+                    // Groups with matching projects are shown expanded while filtering
+                    document.body.classList.toggle('filtering', isFiltering);
+                    
+                    // Highlight the tags that are part of the search
+                    document.querySelectorAll('.tag-chip').forEach(chip => {
+                        const isActive = terms.some(term => term.qualifier === 'tag' && !term.negated && term.value === chip.getAttribute('data-tag'));
+                        chip.classList.toggle('active', isActive);
+                    });
+                    
+                    // Filter, highlight and rank the projects, better matches come first within their group
+                    let bestScore = -Infinity;
+                    bestProject = null;
                     document.querySelectorAll('.project').forEach(project => {
-                        const projectName = project.querySelector('.project-name').textContent.toLowerCase();
-                        const isVisible = projectName.includes(searchTerm);
+                        const result = evaluateQuery(project, terms);
+                        const isVisible = result !== null && matchesGitFilter(project, gitFilter);
                         project.style.display = isVisible ? '' : 'none';
+                        project.style.order = isVisible && isRanking ? String(-Math.round(result.score)) : '';
+                        highlightName(project, isVisible ? result.indices : null);
+                        if (isVisible && result.score > bestScore) {
+                            bestScore = result.score;
+                            bestProject = project;
+                        }
                     });
+                    if (selectedProject && selectedProject.style.display === 'none') {
+                        selectProject(null);
+                    }
                     
                     // Show/hide groups based on whether they have any visible projects
                     document.querySelectorAll('.group').forEach(group => {
                         const visibleProjects = Array.from(group.querySelectorAll('.project'))
                             .filter(project => project.style.display !== 'none');
                         const hasVisibleProjects = visibleProjects.length > 0;
-                        group.style.display = hasVisibleProjects ? '' : 'none';
+                        group.style.display = hasVisibleProjects || !isFiltering ? '' : 'none';
                         
                         // Update the project count badge to show only visible projects
                         if (hasVisibleProjects) {
@@ -983,7 +3592,215 @@ export class ProjectDashboard {
                             }
                         }
                     });
+                    
+                    // Hide base folder sections and usage strips without any visible project
+                    document.querySelectorAll('.base-folder, .usage-strip, .favorites').forEach(section => {
+                        const hasVisibleProjects = Array.from(section.querySelectorAll('.project'))
+                            .some(project => project.style.display !== 'none');
+                        section.style.display = hasVisibleProjects || !isFiltering ? '' : 'none';
+                    });
+                }
+                document.getElementById('searchInput').addEventListener('input', applyFilter);
+                
+                // Ctrl/Cmd+Enter opens the project in this window, Alt adds it to the workspace,
+                // without a modifier the default mode from the settings is used
+                function getOpenMode(event) {
+                    if (event && event.altKey) {
+                        return 'addToWorkspace';
+                    }
+                    if (event && (event.ctrlKey || event.metaKey)) {
+                        return 'currentWindow';
+                    }
+                    return null;
+                }
+                
+                function openProject(project, event) {
+                    vscode.postMessage({
+                        command: 'openProject',
+                        projectPath: project.getAttribute('data-path'),
+                        mode: getOpenMode(event)
+                    });
+                }
+                
+                // Projects selected to be opened together, by id since a project can have several cards
+                const selectedProjectIds = [];
+                let selectionAnchor = null;
+                
+                function updateSelection() {
+                    document.querySelectorAll('.project').forEach(project => {
+                        project.classList.toggle('multi-selected', selectedProjectIds.includes(project.getAttribute('data-path')));
+                    });
+                    document.getElementById('selectionBar').classList.toggle('visible', selectedProjectIds.length > 0);
+                    document.getElementById('selectionCount').textContent = selectedProjectIds.length === 1
+                        ? '1 project selected'
+                        : selectedProjectIds.length + ' projects selected';
+                }
+                
+                function toggleProjectSelection(project) {
+                    // Workspace files cannot be part of another workspace
+                    if (project.hasAttribute('data-workspace-file')) {
+                        return;
+                    }
+                    const projectId = project.getAttribute('data-path');
+                    const index = selectedProjectIds.indexOf(projectId);
+                    if (index === -1) {
+                        selectedProjectIds.push(projectId);
+                    } else {
+                        selectedProjectIds.splice(index, 1);
+                    }
+                    selectionAnchor = project;
+                    updateSelection();
+                }
+                
+                // Select every visible project between the last selected one and the given one
+                function selectProjectRange(project) {
+                    const visibleProjects = getVisibleProjects();
+                    const from = visibleProjects.indexOf(selectionAnchor);
+                    const to = visibleProjects.indexOf(project);
+                    if (from === -1 || to === -1) {
+                        toggleProjectSelection(project);
+                        return;
+                    }
+                    for (const candidate of visibleProjects.slice(Math.min(from, to), Math.max(from, to) + 1)) {
+                        const projectId = candidate.getAttribute('data-path');
+                        if (!candidate.hasAttribute('data-workspace-file') && !selectedProjectIds.includes(projectId)) {
+                            selectedProjectIds.push(projectId);
+                        }
+                    }
+                    updateSelection();
+                }
+                
+                function clearSelection() {
+                    selectedProjectIds.length = 0;
+                    selectionAnchor = null;
+                    updateSelection();
+                }
+                
+                document.getElementById('openSelection').addEventListener('click', () => {
+                    vscode.postMessage({ command: 'openProjectsAsWorkspace', projectIds: selectedProjectIds.slice() });
+                    clearSelection();
+                });
+                document.getElementById('clearSelection').addEventListener('click', clearSelection);
+                
+                // Keyboard navigation: the arrow keys move between the visible cards, Enter opens the selected one
+                
+                function getVisibleProjects() {
+                    return Array.from(document.querySelectorAll('.project')).filter(project => project.offsetParent !== null);
+                }
+                
+                function selectProject(project) {
+                    if (selectedProject) {
+                        selectedProject.classList.remove('selected');
+                    }
+                    selectedProject = project;
+                    if (project) {
+                        project.classList.add('selected');
+                        project.focus({ preventScroll: true });
+                        project.scrollIntoView({ block: 'nearest' });
+                    }
+                }
+                
+                // Find the closest visible card in the direction of an arrow key
+                function findProjectInDirection(current, key) {
+                    const from = current.getBoundingClientRect();
+                    const fromX = from.left + from.width / 2;
+                    const fromY = from.top + from.height / 2;
+                    let closest = null;
+                    let closestDistance = Infinity;
+                    
+                    for (const candidate of getVisibleProjects()) {
+                        if (candidate === current) {
+                            continue;
+                        }
+                        const rect = candidate.getBoundingClientRect();
+                        const dx = rect.left + rect.width / 2 - fromX;
+                        const dy = rect.top + rect.height / 2 - fromY;
+                        const [along, across] = {
+                            ArrowDown: [dy, dx],
+                            ArrowUp: [-dy, dx],
+                            ArrowRight: [dx, dy],
+                            ArrowLeft: [-dx, dy]
+                        }[key];
+                        if (along <= 1) {
+                            continue;
+                        }
+                        // Cards out of line with the current one are further away
+                        const distance = along + Math.abs(across) * 2;
+                        if (distance < closestDistance) {
+                            closest = candidate;
+                            closestDistance = distance;
+                        }
+                    }
+                    return closest;
+                }
+                
+                document.addEventListener('keydown', (e) => {
+                    const searchInput = document.getElementById('searchInput');
+                    if (selectedProject && !document.contains(selectedProject)) {
+                        selectProject(null);
+                    }
+                    if (e.key === 'Escape' && selectedProjectIds.length > 0) {
+                        clearSelection();
+                    }
+                    
+                    if (e.target === searchInput) {
+                        if (e.key === 'ArrowDown') {
+                            const first = bestProject && bestProject.offsetParent !== null ? bestProject : getVisibleProjects()[0];
+                            if (first) {
+                                e.preventDefault();
+                                selectProject(first);
+                            }
+                        } else if (e.key === 'Enter') {
+                            const project = selectedProject || bestProject;
+                            if (project) {
+                                openProject(project, e);
+                            }
+                        }
+                        return;
+                    }
+                    
+                    if (!selectedProject || !e.target.closest || !e.target.closest('.project')) {
+                        return;
+                    }
+                    switch (e.key) {
+                        case 'ArrowDown':
+                        case 'ArrowUp':
+                        case 'ArrowLeft':
+                        case 'ArrowRight': {
+                            e.preventDefault();
+                            const next = findProjectInDirection(selectedProject, e.key);
+                            if (next) {
+                                selectProject(next);
+                            } else if (e.key === 'ArrowUp') {
+                                // Moving up from the first row returns to the search box
+                                selectProject(null);
+                                searchInput.focus();
+                            }
+                            break;
+                        }
+                        case 'Enter':
+                            e.preventDefault();
+                            openProject(selectedProject, e);
+                            break;
+                        case ' ':
+                            e.preventDefault();
+                            toggleProjectSelection(selectedProject);
+                            break;
+                        case 'Escape':
+                            selectProject(null);
+                            searchInput.focus();
+                            break;
+                    }
                 });
+                
+                // Filter projects by git status, the choice is kept while the webview lives
+                const gitFilterSelect = document.getElementById('gitFilter');
+                gitFilterSelect.value = (vscode.getState() || {}).gitFilter || 'all';
+                gitFilterSelect.addEventListener('change', () => {
+                    vscode.setState({ ...(vscode.getState() || {}), gitFilter: gitFilterSelect.value });
+                    applyFilter();
+                });
+                applyFilter();
             </script>
         </body>
         </html>`;
@@ -1008,9 +3825,18 @@ export class ProjectDashboard {
             if (saveUri) {
                 // Prepare the config for export (remove sensitive data if needed)
                 const exportConfig = {
-                    baseProjectsFolder: config.baseProjectsFolder,
+                    schemaVersion: CONFIG_SCHEMA_VERSION,
+                    baseFolders: config.baseFolders,
                     projectsData: config.projectsData,
                     groupStates: config.groupStates,
+                    favorites: config.favorites,
+                    customGroups: config.customGroups,
+                    projectTags: config.projectTags,
+                    projectSets: config.projectSets,
+                    hiddenProjects: config.hiddenProjects,
+                    sort: config.sort,
+                    customOrder: config.customOrder,
+                    projectUsage: config.projectUsage,
                     lastScanTime: config.lastScanTime
                 };
                 
@@ -1028,7 +3854,8 @@ export class ProjectDashboard {
     }
 
     /**
-     * Handle importing configuration
+     * Handle importing configuration: choose how to combine it with the current configuration and
+     * which parts to import, then confirm a preview of the changes
      */
     private async handleImportConfig(): Promise<void> {
         try {
@@ -1043,55 +3870,102 @@ export class ProjectDashboard {
                 title: 'Import Project Dashboard Configuration'
             });
             
-            if (openUri && openUri.length > 0) {
-                // Read the file
-                const fileData = await vscode.workspace.fs.readFile(openUri[0]);
-                const jsonContent = Buffer.from(fileData).toString('utf8');
-                
-                // Parse the JSON
-                const importedConfig = JSON.parse(jsonContent);
-                
-                // Validate the imported configuration
-                if (!importedConfig.baseProjectsFolder || !importedConfig.projectsData) {
-                    throw new Error('Invalid configuration file');
+            if (!openUri || openUri.length === 0) {
+                return;
+            }
+
+            // Read the file
+            const fileData = await vscode.workspace.fs.readFile(openUri[0]);
+            const jsonContent = Buffer.from(fileData).toString('utf8');
+            
+            // Parse the JSON, upgrading configs exported by older versions and checking them against the schema
+            const importedConfig: ProjectConfig = this.configManager.parseConfig(JSON.parse(jsonContent));
+
+            const parts = IMPORT_PARTS.filter(part => part.keys.some(key => importedConfig[key] !== undefined));
+            if (parts.length === 0) {
+                vscode.window.showInformationMessage('The file contains nothing to import.');
+                return;
+            }
+
+            const strategy = await vscode.window.showQuickPick(IMPORT_STRATEGIES, {
+                title: 'Import Project Dashboard Configuration',
+                placeHolder: 'How should the imported configuration be combined with the current one?'
+            });
+            if (!strategy) {
+                return;
+            }
+
+            const selectedParts = await vscode.window.showQuickPick(
+                parts.map(part => ({ ...part, picked: true })),
+                {
+                    title: 'Import Project Dashboard Configuration',
+                    placeHolder: 'Select what to import',
+                    canPickMany: true
                 }
-                
-                // Check if base folder exists
-                const baseFolder = importedConfig.baseProjectsFolder;
+            );
+            if (!selectedParts || selectedParts.length === 0) {
+                return;
+            }
+            const keys = selectedParts.flatMap(part => part.keys);
+            
+            // Check if every imported base folder exists
+            for (const baseFolder of keys.includes('baseFolders') ? importedConfig.baseFolders || [] : []) {
                 const baseFolderExists = await new Promise<boolean>((resolve) => {
-                    fs.access(baseFolder, fs.constants.F_OK, (err) => {
+                    fs.access(baseFolder.path, fs.constants.F_OK, (err) => {
                         resolve(!err);
                     });
                 });
                 
-                if (!baseFolderExists) {
-                    const result = await vscode.window.showWarningMessage(
-                        `The base folder "${baseFolder}" does not exist. Do you want to select a new base folder?`, 
-                        'Yes', 'No'
-                    );
-                    
-                    if (result === 'Yes') {
-                        await this.handleSelectBaseFolder();
-                        // Get the newly selected folder
-                        const config = this.configManager.getConfig();
-                        if (config.baseProjectsFolder) {
-                            importedConfig.baseProjectsFolder = config.baseProjectsFolder;
-                        } else {
-                            throw new Error('No base folder selected');
-                        }
-                    } else {
-                        throw new Error('Base folder does not exist');
-                    }
+                if (baseFolderExists) {
+                    continue;
                 }
+
+                const result = await vscode.window.showWarningMessage(
+                    `The base folder "${baseFolder.path}" (${baseFolder.name}) does not exist. Do you want to select a new folder for it?`, 
+                    'Yes', 'No'
+                );
                 
-                // Save the imported configuration
-                await this.configManager.saveConfig(importedConfig);
-                
-                // Update the webview
-                await this.updateWebview();
-                
-                vscode.window.showInformationMessage('Configuration imported successfully!');
+                if (result !== 'Yes') {
+                    throw new Error('Base folder does not exist');
+                }
+
+                const folderUri = await vscode.window.showOpenDialog({
+                    canSelectFiles: false,
+                    canSelectFolders: true,
+                    canSelectMany: false,
+                    title: `Select Folder for "${baseFolder.name}"`
+                });
+                if (!folderUri || folderUri.length === 0) {
+                    throw new Error('No base folder selected');
+                }
+                baseFolder.path = folderUri[0].fsPath;
+            }
+
+            // Preview what the import changes before anything is saved
+            const currentConfig = this.configManager.getConfig();
+            const newConfig = mergeConfigParts(currentConfig, importedConfig, keys, strategy.strategy);
+            const diff = diffConfigs(currentConfig, newConfig);
+            if (isEmptyDiff(diff)) {
+                vscode.window.showInformationMessage('The imported configuration does not change anything.');
+                return;
             }
+
+            const answer = await vscode.window.showInformationMessage(
+                `Import ${selectedParts.map(part => part.label.toLowerCase()).join(', ')} (${strategy.label.toLowerCase()})?`,
+                { modal: true, detail: describeConfigDiff(diff) },
+                'Import'
+            );
+            if (answer !== 'Import') {
+                return;
+            }
+            
+            // Save the imported configuration
+            await this.configManager.saveConfig(newConfig, `Import ${path.basename(openUri[0].fsPath)}`);
+            
+            // Update the webview
+            await this.updateWebview();
+            
+            vscode.window.showInformationMessage('Configuration imported successfully!');
         } catch (error) {
             vscode.window.showErrorMessage(`Failed to import configuration: ${error}`);
         }
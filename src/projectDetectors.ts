@@ -0,0 +1,350 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface ProjectMetadata {
+    languages: string[];
+    frameworks: string[];
+    packageManager?: string;
+}
+
+/**
+ * Short symbols shown on project cards for well known languages
+ */
+export const LANGUAGE_ICONS: { [language: string]: string } = {
+    'TypeScript': 'TS',
+    'JavaScript': 'JS',
+    'Rust': '🦀',
+    'Go': 'Go',
+    'Python': '🐍',
+    'PHP': '🐘',
+    'Ruby': '💎',
+    'Java': '☕',
+    'Kotlin': 'Kt',
+    'C#': 'C#',
+    'F#': 'F#',
+    'Dart': '🎯'
+};
+
+/**
+ * What a detector gets to inspect, file access is limited to the project root and cached
+ */
+export interface DetectionContext {
+    projectPath: string;
+    fileNames: string[]; // Names of the files and folders in the project root
+    hasFile(...names: string[]): boolean;
+    readFile(name: string): Promise<string | undefined>;
+    readJson(name: string): Promise<any | undefined>;
+}
+
+/**
+ * A detector inspects a project and reports what it recognized. Results of all detectors are
+ * merged: languages and frameworks are combined, the first reported package manager wins.
+ */
+export interface ProjectDetector {
+    id: string;
+    detect(context: DetectionContext): Partial<ProjectMetadata> | undefined | Promise<Partial<ProjectMetadata> | undefined>;
+}
+
+/**
+ * Build a detection context for a project folder
+ */
+async function createDetectionContext(projectPath: string): Promise<DetectionContext> {
+    const fileNames = await fs.promises.readdir(projectPath);
+    const fileCache = new Map<string, Promise<string | undefined>>();
+
+    const readFile = (name: string) => {
+        if (!fileCache.has(name)) {
+            fileCache.set(name, fileNames.includes(name)
+                ? fs.promises.readFile(path.join(projectPath, name), 'utf-8').catch(() => undefined)
+                : Promise.resolve(undefined));
+        }
+        return fileCache.get(name)!;
+    };
+
+    return {
+        projectPath: projectPath,
+        fileNames: fileNames,
+        hasFile: (...names: string[]) => names.some(name => fileNames.includes(name)),
+        readFile: readFile,
+        readJson: async (name: string) => {
+            const content = await readFile(name);
+            if (content === undefined) {
+                return undefined;
+            }
+            try {
+                return JSON.parse(content);
+            } catch {
+                return undefined;
+            }
+        }
+    };
+}
+
+/**
+ * Map the names of dependencies found in a manifest to frameworks
+ */
+function detectFrameworks(dependencies: string[], frameworks: { [dependency: string]: string }): string[] {
+    return Object.keys(frameworks)
+        .filter(dependency => dependencies.includes(dependency))
+        .map(dependency => frameworks[dependency]);
+}
+
+const nodeDetector: ProjectDetector = {
+    id: 'node',
+    async detect(context) {
+        const packageJson = await context.readJson('package.json');
+        if (!packageJson) {
+            return undefined;
+        }
+
+        const dependencies = Object.keys({
+            ...packageJson.dependencies,
+            ...packageJson.devDependencies,
+            ...packageJson.peerDependencies
+        });
+
+        const languages = context.hasFile('tsconfig.json') || dependencies.includes('typescript')
+            ? ['TypeScript']
+            : ['JavaScript'];
+
+        const frameworks = detectFrameworks(dependencies, {
+            'next': 'Next.js',
+            'nuxt': 'Nuxt',
+            'react': 'React',
+            'vue': 'Vue',
+            '@angular/core': 'Angular',
+            'svelte': 'Svelte',
+            'solid-js': 'Solid',
+            'express': 'Express',
+            'fastify': 'Fastify',
+            '@nestjs/core': 'NestJS',
+            'electron': 'Electron',
+            'vite': 'Vite'
+        });
+        if (packageJson.engines && packageJson.engines.vscode) {
+            frameworks.push('VS Code Extension');
+        }
+
+        // Prefer the declared package manager, then the lockfile
+        let packageManager: string | undefined;
+        if (typeof packageJson.packageManager === 'string') {
+            packageManager = packageJson.packageManager.split('@')[0];
+        } else if (context.hasFile('pnpm-lock.yaml')) {
+            packageManager = 'pnpm';
+        } else if (context.hasFile('yarn.lock')) {
+            packageManager = 'yarn';
+        } else if (context.hasFile('bun.lockb', 'bun.lock')) {
+            packageManager = 'bun';
+        } else {
+            packageManager = 'npm';
+        }
+
+        return { languages, frameworks, packageManager };
+    }
+};
+
+const rustDetector: ProjectDetector = {
+    id: 'rust',
+    async detect(context) {
+        const cargoToml = await context.readFile('Cargo.toml');
+        if (cargoToml === undefined) {
+            return undefined;
+        }
+        const frameworks = detectFrameworks(
+            [...cargoToml.matchAll(/^\s*([\w-]+)\s*=/gm)].map(match => match[1]),
+            {
+                'actix-web': 'Actix Web',
+                'axum': 'Axum',
+                'rocket': 'Rocket',
+                'tauri': 'Tauri',
+                'bevy': 'Bevy'
+            }
+        );
+        return { languages: ['Rust'], frameworks, packageManager: 'cargo' };
+    }
+};
+
+const goDetector: ProjectDetector = {
+    id: 'go',
+    async detect(context) {
+        const goMod = await context.readFile('go.mod');
+        if (goMod === undefined) {
+            return undefined;
+        }
+        const frameworks = detectFrameworks(
+            [...goMod.matchAll(/^\s*(?:require\s+)?([\w.\-/]+)\s+v[\d.]+/gm)].map(match => match[1]),
+            {
+                'github.com/gin-gonic/gin': 'Gin',
+                'github.com/labstack/echo/v4': 'Echo',
+                'github.com/gofiber/fiber/v2': 'Fiber'
+            }
+        );
+        return { languages: ['Go'], frameworks, packageManager: 'go modules' };
+    }
+};
+
+const pythonDetector: ProjectDetector = {
+    id: 'python',
+    async detect(context) {
+        if (!context.hasFile('pyproject.toml', 'requirements.txt', 'setup.py', 'setup.cfg', 'Pipfile')) {
+            return undefined;
+        }
+
+        const manifests = (await Promise.all(['pyproject.toml', 'requirements.txt', 'Pipfile'].map(name => context.readFile(name))))
+            .join('\n')
+            .toLowerCase();
+        const frameworks = [['django', 'Django'], ['flask', 'Flask'], ['fastapi', 'FastAPI']]
+            .filter(([dependency]) => new RegExp(`\\b${dependency}\\b`).test(manifests))
+            .map(([, framework]) => framework);
+
+        let packageManager = 'pip';
+        if (context.hasFile('uv.lock')) {
+            packageManager = 'uv';
+        } else if (context.hasFile('poetry.lock') || manifests.includes('[tool.poetry]')) {
+            packageManager = 'poetry';
+        } else if (context.hasFile('Pipfile')) {
+            packageManager = 'pipenv';
+        }
+
+        return { languages: ['Python'], frameworks, packageManager };
+    }
+};
+
+const phpDetector: ProjectDetector = {
+    id: 'php',
+    async detect(context) {
+        const composerJson = await context.readJson('composer.json');
+        if (!composerJson) {
+            return undefined;
+        }
+        const dependencies = Object.keys({ ...composerJson.require, ...composerJson['require-dev'] });
+        const frameworks = detectFrameworks(dependencies, {
+            'laravel/framework': 'Laravel',
+            'symfony/framework-bundle': 'Symfony',
+            'slim/slim': 'Slim'
+        });
+        return { languages: ['PHP'], frameworks, packageManager: 'composer' };
+    }
+};
+
+const rubyDetector: ProjectDetector = {
+    id: 'ruby',
+    async detect(context) {
+        const gemfile = await context.readFile('Gemfile');
+        if (gemfile === undefined) {
+            return undefined;
+        }
+        const frameworks = /gem\s+['"]rails['"]/.test(gemfile) ? ['Rails'] : [];
+        return { languages: ['Ruby'], frameworks, packageManager: 'bundler' };
+    }
+};
+
+const jvmDetector: ProjectDetector = {
+    id: 'jvm',
+    async detect(context) {
+        const isMaven = context.hasFile('pom.xml');
+        const isGradle = context.hasFile('build.gradle', 'build.gradle.kts');
+        if (!isMaven && !isGradle) {
+            return undefined;
+        }
+        const buildFile = (await context.readFile('pom.xml')) || (await context.readFile('build.gradle.kts')) || (await context.readFile('build.gradle')) || '';
+        const languages = context.hasFile('build.gradle.kts') || buildFile.includes('kotlin') ? ['Kotlin'] : ['Java'];
+        const frameworks = buildFile.includes('spring-boot') ? ['Spring Boot'] : [];
+        return { languages, frameworks, packageManager: isMaven ? 'maven' : 'gradle' };
+    }
+};
+
+const dotnetDetector: ProjectDetector = {
+    id: 'dotnet',
+    detect(context) {
+        const projectFiles = context.fileNames.filter(name => /\.(sln|csproj|fsproj)$/.test(name));
+        if (projectFiles.length === 0) {
+            return undefined;
+        }
+        const languages = projectFiles.some(name => name.endsWith('.fsproj')) ? ['F#'] : ['C#'];
+        return { languages, packageManager: 'nuget' };
+    }
+};
+
+const dartDetector: ProjectDetector = {
+    id: 'dart',
+    async detect(context) {
+        const pubspec = await context.readFile('pubspec.yaml');
+        if (pubspec === undefined) {
+            return undefined;
+        }
+        const frameworks = /^\s*flutter\s*:/m.test(pubspec) ? ['Flutter'] : [];
+        return { languages: ['Dart'], frameworks, packageManager: 'pub' };
+    }
+};
+
+export const BUILTIN_DETECTORS: ProjectDetector[] = [
+    nodeDetector,
+    rustDetector,
+    goDetector,
+    pythonDetector,
+    phpDetector,
+    rubyDetector,
+    jvmDetector,
+    dotnetDetector,
+    dartDetector
+];
+
+/**
+ * Runs the registered detectors against a project and merges their results
+ */
+export class ProjectDetectorRegistry {
+    private detectors: ProjectDetector[] = [...BUILTIN_DETECTORS];
+
+    /**
+     * Add a detector, it runs after the ones registered before it
+     */
+    public register(detector: ProjectDetector): vscode.Disposable {
+        if (this.detectors.some(existing => existing.id === detector.id)) {
+            throw new Error(`A project detector with id "${detector.id}" is already registered`);
+        }
+        this.detectors.push(detector);
+        return new vscode.Disposable(() => {
+            this.detectors = this.detectors.filter(existing => existing !== detector);
+        });
+    }
+
+    /**
+     * Detect the languages, frameworks and package manager of a project
+     */
+    public async detect(projectPath: string): Promise<ProjectMetadata> {
+        const metadata: ProjectMetadata = { languages: [], frameworks: [] };
+        const context = await createDetectionContext(projectPath);
+
+        for (const detector of this.detectors) {
+            let result: Partial<ProjectMetadata> | undefined;
+            try {
+                result = await detector.detect(context);
+            } catch (error) {
+                // A failing detector must not hide the results of the others
+                console.error(`Project detector "${detector.id}" failed for ${projectPath}:`, error);
+                continue;
+            }
+            if (!result) {
+                continue;
+            }
+
+            for (const language of result.languages || []) {
+                if (!metadata.languages.includes(language)) {
+                    metadata.languages.push(language);
+                }
+            }
+            for (const framework of result.frameworks || []) {
+                if (!metadata.frameworks.includes(framework)) {
+                    metadata.frameworks.push(framework);
+                }
+            }
+            if (!metadata.packageManager && result.packageManager) {
+                metadata.packageManager = result.packageManager;
+            }
+        }
+
+        return metadata;
+    }
+}
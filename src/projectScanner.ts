@@ -0,0 +1,478 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { BaseFolder, ConfigManager, LayoutRules, ProjectInfo, ProjectsData, SyncedBaseFolder } from './configManager';
+import { IgnoreRules, globToRegExp } from './ignoreRules';
+import { readGitInfo } from './gitInfo';
+
+export const DEFAULT_MARKERS = ['.git', 'package.json', '*.code-workspace'];
+export const DEFAULT_GROUPS_MAX_DEPTH = 2;
+export const DEFAULT_MARKERS_MAX_DEPTH = 4;
+export const IGNORE_FILE_NAME = '.dashboardignore';
+export const WORKSPACE_FILE_EXTENSION = '.code-workspace';
+
+/**
+ * Folders left out of the size and last modification of a project, they are history and
+ * installed dependencies rather than the project itself
+ */
+const SIZE_EXCLUDED_FOLDERS = new Set(['.git', 'node_modules']);
+
+export interface ScanOptions {
+    token?: vscode.CancellationToken;
+    /**
+     * Called when a group directly below the scanned folder has been scanned completely,
+     * with the projects of that group and its nested groups
+     */
+    onGroupScanned?: (groupKey: string, projectsData: ProjectsData) => void;
+    /**
+     * Called each time a folder directly below the scanned folder is done
+     */
+    onProgress?: (completed: number, total: number) => void;
+}
+
+interface ScanContext {
+    baseFolder: BaseFolder;
+    rules: Required<LayoutRules>;
+    ignoreRules: IgnoreRules;
+    hiddenProjects: Set<string>;
+    limiter: ConcurrencyLimiter;
+    timeout: number;
+    readGit: boolean;
+    measureSize: boolean;
+    options: ScanOptions;
+}
+
+interface FolderEntries {
+    folders: string[];
+    workspaceFiles: string[]; // Names of the .code-workspace files
+}
+
+interface FolderScanResult {
+    projectsData: ProjectsData; // The folder's group followed by its nested groups
+    hasProjects: boolean;
+}
+
+/**
+ * Limits how many file system operations run at the same time
+ */
+export class ConcurrencyLimiter {
+    private running = 0;
+    private queue: (() => void)[] = [];
+    private maxConcurrency: number;
+
+    constructor(maxConcurrency: number) {
+        this.maxConcurrency = maxConcurrency;
+    }
+
+    public async run<T>(task: () => Promise<T>): Promise<T> {
+        if (this.running >= this.maxConcurrency) {
+            // The slot is handed over by the task that finishes, it stays counted as running
+            await new Promise<void>(resolve => this.queue.push(resolve));
+        } else {
+            this.running++;
+        }
+        try {
+            return await task();
+        } finally {
+            const next = this.queue.shift();
+            if (next) {
+                next();
+            } else {
+                this.running--;
+            }
+        }
+    }
+}
+
+interface FolderMeasurement {
+    size: number; // Bytes in all files
+    lastModified: number; // Modification time of the newest file, 0 without files
+}
+
+const NO_FILES: FolderMeasurement = { size: 0, lastModified: 0 };
+
+/**
+ * Reject when a promise takes longer than the timeout, so one hung mount cannot block a scan
+ */
+function withTimeout<T>(promise: Promise<T>, timeout: number, description: string): Promise<T> {
+    let timer: NodeJS.Timeout | undefined;
+    return Promise.race([
+        promise,
+        new Promise<T>((_, reject) => {
+            timer = setTimeout(() => reject(new Error(`Timed out after ${timeout}ms: ${description}`)), timeout);
+        })
+    ]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Check whether a file or folder name is one of the markers of a project, markers may be globs
+ */
+export function isMarker(name: string, markers: string[]): boolean {
+    return markers.some(marker => /[*?[{]/.test(marker) ? globToRegExp(marker).test(name) : name === marker);
+}
+
+export class ProjectScanner {
+    private configManager: ConfigManager;
+
+    constructor(configManager: ConfigManager) {
+        this.configManager = configManager;
+    }
+
+    /**
+     * Scan a whole base folder according to its layout rules
+     */
+    public scanBaseFolder(baseFolder: BaseFolder, options: ScanOptions = {}): Promise<ProjectsData> {
+        return this.scanGroup(baseFolder, '', options);
+    }
+
+    /**
+     * Scan a group folder and every group nested below it.
+     * Returns the projects of the group and of each nested group keyed by group key.
+     */
+    public async scanGroup(baseFolder: BaseFolder, groupName: string, options: ScanOptions = {}): Promise<ProjectsData> {
+        const settings = vscode.workspace.getConfiguration('syncableProjectDashboard.scan');
+        const depth = groupName ? groupName.split('/').length : 0;
+        const scanContext: ScanContext = {
+            baseFolder: baseFolder,
+            rules: this.getLayoutRules(baseFolder),
+            ignoreRules: await this.getIgnoreRules(baseFolder),
+            hiddenProjects: new Set(this.configManager.getConfig().hiddenProjects || []),
+            limiter: new ConcurrencyLimiter(Math.max(1, settings.get<number>('concurrency', 8))),
+            timeout: Math.max(1, settings.get<number>('timeout', 10000)),
+            readGit: vscode.workspace.getConfiguration('syncableProjectDashboard.git').get<boolean>('enabled', true),
+            measureSize: settings.get<boolean>('measureSize', false),
+            options: options
+        };
+
+        const result = await this.scanFolder(scanContext, groupName, depth, true);
+
+        return result.projectsData;
+    }
+
+    /**
+     * Build the exclusion rules of a base folder from the settings and its .dashboardignore file
+     */
+    public async getIgnoreRules(baseFolder: BaseFolder): Promise<IgnoreRules> {
+        const settings = vscode.workspace.getConfiguration('syncableProjectDashboard.scan');
+        const ignoreRules = new IgnoreRules();
+
+        for (const pattern of settings.get<string[]>('exclude', [])) {
+            ignoreRules.add(pattern);
+        }
+
+        const ignoreFilePath = path.join(baseFolder.path, IGNORE_FILE_NAME);
+        try {
+            ignoreRules.addLines(await fs.promises.readFile(ignoreFilePath, 'utf-8'));
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                console.error(`Error reading ${ignoreFilePath}:`, error);
+            }
+        }
+
+        // Include patterns win over every exclusion
+        for (const pattern of settings.get<string[]>('include', [])) {
+            ignoreRules.add(pattern, true);
+        }
+
+        return ignoreRules;
+    }
+
+    /**
+     * Resolve the layout rules of a base folder, filling in defaults
+     */
+    public getLayoutRules(baseFolder: SyncedBaseFolder): Required<LayoutRules> {
+        const layout = baseFolder.layout || {};
+        const mode = layout.mode || 'groups';
+
+        let maxDepth: number;
+        switch (mode) {
+            case 'flat':
+                // Every folder directly below the base folder is a project
+                maxDepth = 1;
+                break;
+            case 'markers':
+                maxDepth = layout.maxDepth || DEFAULT_MARKERS_MAX_DEPTH;
+                break;
+            default:
+                maxDepth = layout.maxDepth || DEFAULT_GROUPS_MAX_DEPTH;
+        }
+
+        return {
+            mode: mode,
+            maxDepth: Math.max(1, maxDepth),
+            markers: layout.markers && layout.markers.length > 0 ? layout.markers : DEFAULT_MARKERS
+        };
+    }
+
+    /**
+     * Scan one folder and the groups nested below it
+     */
+    private async scanFolder(
+        scanContext: ScanContext,
+        relativePath: string,
+        depth: number,
+        isScanRoot: boolean
+    ): Promise<FolderScanResult> {
+        const { baseFolder, rules, options } = scanContext;
+        const folderPath = path.join(baseFolder.path, ...relativePath.split('/').filter(Boolean));
+        const groupKey = this.configManager.getGroupKey(baseFolder.name, relativePath);
+        const entries = await this.readFolder(scanContext, folderPath);
+        const isVisible = (childName: string, childRelativePath: string) =>
+            !scanContext.ignoreRules.isIgnored(childRelativePath) && !scanContext.hiddenProjects.has(`${groupKey}/${childName}`);
+
+        // Skip excluded folders and projects hidden from the dashboard
+        const children = entries.folders
+            .map(childName => ({
+                name: childName,
+                relativePath: relativePath ? `${relativePath}/${childName}` : childName,
+                path: path.join(folderPath, childName)
+            }))
+            .filter(child => isVisible(child.name, child.relativePath));
+
+        // Scan all children in parallel, the limiter bounds the file system operations
+        let completed = 0;
+        const results = await Promise.all(children.map(async child => {
+            this.throwIfCancelled(scanContext);
+
+            const isProject = rules.mode === 'markers'
+                ? await this.hasMarker(scanContext, child.path)
+                : depth + 1 >= rules.maxDepth;
+
+            let project: ProjectInfo | undefined;
+            let nested: FolderScanResult | undefined;
+
+            if (isProject) {
+                project = await this.scanProject(scanContext, `${groupKey}/${child.name}`, child.name, child.path);
+            } else if (depth + 1 < rules.maxDepth) {
+                try {
+                    nested = await this.scanFolder(scanContext, child.relativePath, depth + 1, false);
+                } catch (error) {
+                    if (error instanceof vscode.CancellationError) {
+                        throw error;
+                    }
+                    // An unreadable or hung group folder must not fail the whole scan
+                    console.error(`Error scanning group ${child.path}:`, error);
+                }
+                if (nested && isScanRoot && (nested.hasProjects || rules.mode !== 'markers')) {
+                    options.onGroupScanned?.(this.configManager.getGroupKey(baseFolder.name, child.relativePath), nested.projectsData);
+                }
+            }
+
+            if (isScanRoot) {
+                options.onProgress?.(++completed, children.length);
+            }
+            return { project: project, nested: nested };
+        }));
+
+        // Assemble the results in folder order, the folder's own group comes first
+        const projectInfoList: ProjectInfo[] = [];
+        const projectsData: ProjectsData = { [groupKey]: projectInfoList };
+        let hasProjects = false;
+
+        for (const result of results) {
+            if (result.project) {
+                projectInfoList.push(result.project);
+                hasProjects = true;
+            } else if (result.nested) {
+                Object.assign(projectsData, result.nested.projectsData);
+                hasProjects = hasProjects || result.nested.hasProjects;
+            }
+        }
+
+        // Workspace files next to the folders are opened like projects
+        for (const fileName of entries.workspaceFiles) {
+            if (isVisible(fileName, relativePath ? `${relativePath}/${fileName}` : fileName)) {
+                const project: ProjectInfo = { name: fileName, id: `${groupKey}/${fileName}`, workspaceFile: true };
+                try {
+                    const settings = await scanContext.limiter.run(() => withTimeout(
+                        this.configManager.readProjectSettings(path.join(folderPath, fileName)),
+                        scanContext.timeout,
+                        fileName
+                    ));
+                    project.color = settings.color;
+                } catch (error) {
+                    console.error(`Error reading workspace file ${fileName}:`, error);
+                }
+                projectInfoList.push(project);
+                hasProjects = true;
+            }
+        }
+
+        // Marker based layouts only keep groups that lead to a project
+        if (rules.mode === 'markers' && !hasProjects) {
+            return { projectsData: {}, hasProjects: false };
+        }
+        if (!relativePath && projectInfoList.length === 0) {
+            // The base folder itself is only a group when it directly holds projects
+            delete projectsData[groupKey];
+        }
+
+        return { projectsData: projectsData, hasProjects: hasProjects };
+    }
+
+    /**
+     * Read the details of a single project. A project that cannot be read in time
+     * is still listed, just without its details.
+     */
+    private async scanProject(scanContext: ScanContext, projectId: string, projectName: string, projectPath: string): Promise<ProjectInfo> {
+        const project: ProjectInfo = { name: projectName, id: projectId };
+
+        try {
+            const settings = await scanContext.limiter.run(() => withTimeout(
+                this.configManager.readProjectSettings(projectPath),
+                scanContext.timeout,
+                projectPath
+            ));
+            project.color = settings.color;
+            project.tags = settings.tags;
+        } catch (error) {
+            console.error(`Error scanning project ${projectPath}:`, error);
+        }
+
+        try {
+            const metadata = await scanContext.limiter.run(() => withTimeout(
+                this.configManager.detectProjectMetadata(projectPath),
+                scanContext.timeout,
+                projectPath
+            ));
+            if (metadata.languages.length > 0) {
+                project.languages = metadata.languages;
+            }
+            if (metadata.frameworks.length > 0) {
+                project.frameworks = metadata.frameworks;
+            }
+            project.packageManager = metadata.packageManager;
+        } catch (error) {
+            console.error(`Error detecting project type of ${projectPath}:`, error);
+        }
+
+        if (scanContext.readGit) {
+            try {
+                project.git = await scanContext.limiter.run(() => withTimeout(
+                    readGitInfo(projectPath, scanContext.timeout),
+                    scanContext.timeout,
+                    projectPath
+                ));
+            } catch (error) {
+                console.error(`Error reading git status of ${projectPath}:`, error);
+            }
+        }
+
+        if (scanContext.measureSize) {
+            try {
+                const measurement = await this.measureProject(scanContext, projectPath);
+                project.size = measurement.size;
+                project.lastModified = measurement.lastModified ? Math.round(measurement.lastModified) : undefined;
+            } catch (error) {
+                console.error(`Error measuring the size of ${projectPath}:`, error);
+            }
+        }
+
+        return project;
+    }
+
+    /**
+     * Add up the sizes of the files of a project and find the newest one. Every read goes through
+     * the limiter and excluded folders are skipped. The walk stops when the project takes longer
+     * than the timeout or the scan is cancelled. Symbolic links are not followed.
+     */
+    private async measureProject(scanContext: ScanContext, projectPath: string): Promise<FolderMeasurement> {
+        const deadline = Date.now() + scanContext.timeout;
+        const isStopped = () => !!scanContext.options.token?.isCancellationRequested || Date.now() > deadline;
+        const read = <T>(task: () => Promise<T>, description: string) => scanContext.limiter.run(() => {
+            this.throwIfCancelled(scanContext);
+            if (Date.now() > deadline) {
+                throw new Error(`Timed out after ${scanContext.timeout}ms: ${projectPath}`);
+            }
+            return withTimeout(task(), scanContext.timeout, description);
+        });
+
+        const measure = async (folderPath: string, relativePath: string): Promise<FolderMeasurement> => {
+            let entries: fs.Dirent[] = [];
+            try {
+                entries = await read(() => fs.promises.readdir(folderPath, { withFileTypes: true }), folderPath);
+            } catch (error) {
+                if (isStopped()) {
+                    throw error;
+                }
+                // Folders can disappear or be unreadable while the project is measured
+            }
+
+            const measurements = await Promise.all(entries.map(async (entry): Promise<FolderMeasurement> => {
+                const entryPath = path.join(folderPath, entry.name);
+                const entryRelativePath = `${relativePath}/${entry.name}`;
+                if (scanContext.ignoreRules.isIgnored(entryRelativePath)) {
+                    return NO_FILES;
+                }
+                if (entry.isDirectory()) {
+                    return SIZE_EXCLUDED_FOLDERS.has(entry.name) ? NO_FILES : measure(entryPath, entryRelativePath);
+                }
+                if (!entry.isFile()) {
+                    return NO_FILES;
+                }
+                try {
+                    const stats = await read(() => fs.promises.lstat(entryPath), entryPath);
+                    return { size: stats.size, lastModified: stats.mtimeMs };
+                } catch (error) {
+                    if (isStopped()) {
+                        throw error;
+                    }
+                    return NO_FILES;
+                }
+            }));
+            return {
+                size: measurements.reduce((total, measurement) => total + measurement.size, 0),
+                lastModified: measurements.reduce((newest, measurement) => Math.max(newest, measurement.lastModified), 0)
+            };
+        };
+
+        return measure(projectPath, path.relative(scanContext.baseFolder.path, projectPath).split(path.sep).join('/'));
+    }
+
+    /**
+     * List the names of the folders and workspace files directly inside a folder
+     */
+    private async readFolder(scanContext: ScanContext, folderPath: string): Promise<FolderEntries> {
+        this.throwIfCancelled(scanContext);
+
+        const entries = await scanContext.limiter.run(() => withTimeout(
+            fs.promises.readdir(folderPath, { withFileTypes: true }),
+            scanContext.timeout,
+            folderPath
+        ));
+
+        return {
+            folders: entries.filter(dirent => dirent.isDirectory()).map(dirent => dirent.name),
+            workspaceFiles: entries
+                .filter(dirent => dirent.isFile() && dirent.name.endsWith(WORKSPACE_FILE_EXTENSION))
+                .map(dirent => dirent.name)
+        };
+    }
+
+    /**
+     * Check whether a folder contains one of the marker files or folders
+     */
+    private async hasMarker(scanContext: ScanContext, folderPath: string): Promise<boolean> {
+        let entries: string[];
+        try {
+            entries = await scanContext.limiter.run(() => withTimeout(
+                fs.promises.readdir(folderPath),
+                scanContext.timeout,
+                folderPath
+            ));
+        } catch {
+            return false;
+        }
+
+        return entries.some(entry => isMarker(entry, scanContext.rules.markers));
+    }
+
+    /**
+     * Stop the scan when the user cancelled it
+     */
+    private throwIfCancelled(scanContext: ScanContext): void {
+        if (scanContext.options.token?.isCancellationRequested) {
+            throw new vscode.CancellationError();
+        }
+    }
+}
@@ -0,0 +1,177 @@
+import { ProjectInfo, ProjectUsage } from './configManager';
+import { getHsl, parseCssColor } from './projectColors';
+
+/**
+ * What projects can be sorted by
+ */
+export const SORT_KEYS = ['name', 'color', 'lastOpened', 'openCount', 'lastCommit', 'lastModified', 'size', 'group', 'path', 'branch', 'manual'] as const;
+
+export type SortKey = typeof SORT_KEYS[number];
+
+export interface SortCriterion {
+    key: SortKey;
+    descending?: boolean;
+}
+
+/**
+ * How the dashboard and the tree view order groups and projects. It is kept apart from the
+ * scanned projects, so a rescan never changes the order.
+ */
+export interface SortModel {
+    projects?: SortCriterion[]; // Order of the projects of every group, later keys break ties
+    groups?: 'asc' | 'desc' | 'manual'; // Order of the groups by name or in the custom order
+    groupOverrides?: {
+        [groupKey: string]: SortCriterion[]; // Order of the projects of a single group
+    };
+}
+
+export const DEFAULT_PROJECT_SORT: SortCriterion[] = [{ key: 'name' }];
+
+/**
+ * The sort choices offered in the dashboard, each a single key with its usual direction
+ */
+export const SORT_PRESETS: { id: string; label: string; criterion: SortCriterion }[] = [
+    { id: 'name-asc', label: 'Name (A-Z)', criterion: { key: 'name' } },
+    { id: 'name-desc', label: 'Name (Z-A)', criterion: { key: 'name', descending: true } },
+    { id: 'color', label: 'Color', criterion: { key: 'color' } },
+    { id: 'last-opened', label: 'Last Opened', criterion: { key: 'lastOpened', descending: true } },
+    { id: 'frequency', label: 'Most Opened', criterion: { key: 'openCount', descending: true } },
+    { id: 'last-commit', label: 'Last Commit', criterion: { key: 'lastCommit', descending: true } },
+    { id: 'last-modified', label: 'Last Modified', criterion: { key: 'lastModified', descending: true } },
+    { id: 'size-desc', label: 'Largest First', criterion: { key: 'size', descending: true } },
+    { id: 'size-asc', label: 'Smallest First', criterion: { key: 'size' } },
+    { id: 'manual', label: 'Custom Order', criterion: { key: 'manual' } }
+];
+
+/**
+ * Groups and projects arranged by hand, each list in the order it is shown. Projects and groups
+ * that are not in a list yet come after the ones that are, by name.
+ */
+export interface CustomOrder {
+    groups?: {
+        [parentKey: string]: string[]; // Keys of the child groups of a group or base folder
+    };
+    projects?: {
+        [groupKey: string]: string[]; // Ids of the projects of a group
+    };
+}
+
+const SORT_KEY_LABELS: { [key in SortKey]: string } = {
+    name: 'Name',
+    color: 'Color',
+    lastOpened: 'Last Opened',
+    openCount: 'Most Opened',
+    lastCommit: 'Last Commit',
+    lastModified: 'Last Modified',
+    size: 'Size',
+    group: 'Group',
+    path: 'Path',
+    branch: 'Branch',
+    manual: 'Custom Order'
+};
+
+/**
+ * Find the preset of a sort criterion, undefined when none matches it
+ */
+export function getSortPreset(criterion: SortCriterion): typeof SORT_PRESETS[number] | undefined {
+    return SORT_PRESETS.find(preset => preset.criterion.key === criterion.key && !!preset.criterion.descending === !!criterion.descending);
+}
+
+/**
+ * Describe sort criteria in one line, e.g. "Color, then Name (A-Z)"
+ */
+export function describeSortCriteria(criteria: SortCriterion[]): string {
+    return criteria
+        .map(criterion => getSortPreset(criterion)?.label || `${SORT_KEY_LABELS[criterion.key]}${criterion.descending ? ' (descending)' : ''}`)
+        .join(', then ');
+}
+
+/**
+ * Sort a copy of a list of projects. Projects without a value for a key, e.g. without a color
+ * or missing from the custom order, come after the others whatever the direction.
+ */
+export function sortProjects(
+    projects: ProjectInfo[],
+    criteria: SortCriterion[],
+    usage: { [projectId: string]: ProjectUsage },
+    customOrder: string[] = []
+): ProjectInfo[] {
+    return projects
+        .slice()
+        .sort((a, b) => {
+            for (const criterion of criteria) {
+                const valueA = getSortValue(a, criterion.key, usage, customOrder);
+                const valueB = getSortValue(b, criterion.key, usage, customOrder);
+                if (valueA === undefined || valueB === undefined) {
+                    if (valueA !== valueB) {
+                        return valueA === undefined ? 1 : -1;
+                    }
+                    continue;
+                }
+                const result = typeof valueA === 'string' && typeof valueB === 'string'
+                    ? valueA.localeCompare(valueB)
+                    : (valueA as number) - (valueB as number);
+                if (result !== 0) {
+                    return criterion.descending ? -result : result;
+                }
+            }
+            return a.name.localeCompare(b.name);
+        });
+}
+
+/**
+ * Sort group keys by the name of the group, or in the custom order followed by the other groups by name
+ */
+export function sortGroupKeys(groupKeys: string[], order: SortModel['groups'] = 'asc', customOrder: string[] = []): string[] {
+    const getName = (groupKey: string) => groupKey.substring(groupKey.lastIndexOf('/') + 1);
+    const sorted = groupKeys.slice().sort((a, b) => getName(a).localeCompare(getName(b)));
+    if (order === 'manual') {
+        const getPosition = (groupKey: string) => customOrder.includes(groupKey) ? customOrder.indexOf(groupKey) : customOrder.length;
+        return sorted.sort((a, b) => getPosition(a) - getPosition(b));
+    }
+    return order === 'desc' ? sorted.reverse() : sorted;
+}
+
+function getSortValue(
+    project: ProjectInfo,
+    key: SortKey,
+    usage: { [projectId: string]: ProjectUsage },
+    customOrder: string[]
+): string | number | undefined {
+    switch (key) {
+        case 'name':
+            return project.name;
+        case 'color':
+            return getColorSortValue(project.color);
+        case 'lastOpened':
+            return usage[project.id]?.lastOpened;
+        case 'openCount':
+            return usage[project.id]?.openCount;
+        case 'lastCommit':
+            return project.git?.lastCommitDate;
+        case 'lastModified':
+            return project.lastModified;
+        case 'size':
+            return project.size;
+        case 'group':
+            return project.id.substring(0, project.id.lastIndexOf('/'));
+        case 'path':
+            return project.id;
+        case 'branch':
+            return project.git?.branch;
+        case 'manual':
+            return customOrder.includes(project.id) ? customOrder.indexOf(project.id) : undefined;
+    }
+}
+
+/**
+ * Order colors around the color wheel by hue, followed by grays from dark to light
+ */
+function getColorSortValue(color: string | undefined): number | undefined {
+    const parsed = color ? parseCssColor(color) : undefined;
+    if (!parsed) {
+        return undefined;
+    }
+    const hsl = getHsl(parsed);
+    return hsl.s < 0.1 ? 360 + hsl.l : hsl.h;
+}
@@ -0,0 +1,115 @@
+import * as vscode from 'vscode';
+import { ColorIcons } from './colorIcons';
+import { ConfigManager, ProjectInfo } from './configManager';
+import { OpenMode, ProjectDashboard } from './projectDashboard';
+
+interface ProjectItem extends vscode.QuickPickItem {
+    projectId: string;
+}
+
+interface OpenButton extends vscode.QuickInputButton {
+    mode: OpenMode;
+}
+
+const OPEN_BUTTONS: OpenButton[] = [
+    { iconPath: new vscode.ThemeIcon('window'), tooltip: 'Open in Current Window', mode: 'currentWindow' },
+    { iconPath: new vscode.ThemeIcon('empty-window'), tooltip: 'Open in New Window', mode: 'newWindow' },
+    { iconPath: new vscode.ThemeIcon('root-folder'), tooltip: 'Add to Workspace', mode: 'addToWorkspace' }
+];
+
+/**
+ * Quick Pick for jumping to any scanned project without opening the dashboard
+ */
+export class ProjectSwitcher {
+    private configManager: ConfigManager;
+    private dashboard: ProjectDashboard;
+    private colorIcons: ColorIcons;
+
+    constructor(configManager: ConfigManager, dashboard: ProjectDashboard, colorIcons: ColorIcons) {
+        this.configManager = configManager;
+        this.dashboard = dashboard;
+        this.colorIcons = colorIcons;
+    }
+
+    /**
+     * Show the switcher, recently opened projects are listed first. Accepting a project opens it
+     * in the default mode, the item buttons choose a mode.
+     */
+    public async show(): Promise<void> {
+        const items = await this.getItems();
+        if (items.length === 0) {
+            const result = await vscode.window.showInformationMessage('No projects have been scanned yet.', 'Open Dashboard');
+            if (result === 'Open Dashboard') {
+                await this.dashboard.open();
+            }
+            return;
+        }
+
+        const quickPick = vscode.window.createQuickPick<ProjectItem>();
+        quickPick.title = 'Switch Project';
+        quickPick.placeholder = 'Select a project to open';
+        quickPick.matchOnDescription = true;
+        quickPick.items = items;
+
+        quickPick.onDidAccept(() => {
+            const selected = quickPick.selectedItems[0];
+            if (selected) {
+                quickPick.hide();
+                this.dashboard.handleOpenProject(selected.projectId).catch((err: Error) => {
+                    vscode.window.showErrorMessage(`Failed to open project: ${err}`);
+                });
+            }
+        });
+        quickPick.onDidTriggerItemButton(event => {
+            quickPick.hide();
+            this.dashboard.handleOpenProject(event.item.projectId, (event.button as OpenButton).mode).catch((err: Error) => {
+                vscode.window.showErrorMessage(`Failed to open project: ${err}`);
+            });
+        });
+        quickPick.onDidHide(() => quickPick.dispose());
+        quickPick.show();
+    }
+
+    /**
+     * Build an item for every scanned project, ranked by the last time it was opened
+     */
+    private async getItems(): Promise<ProjectItem[]> {
+        const config = this.configManager.getConfig();
+        const projectUsage = config.projectUsage || {};
+        const projects: ProjectInfo[] = Object.values(config.projectsData || {}).flat();
+
+        const recentIds = projects
+            .filter(project => projectUsage[project.id])
+            .sort((a, b) => projectUsage[b.id].lastOpened - projectUsage[a.id].lastOpened)
+            .map(project => project.id);
+
+        const toItem = async (project: ProjectInfo): Promise<ProjectItem> => {
+            const rank = recentIds.indexOf(project.id);
+            const usage = projectUsage[project.id];
+            return {
+                label: project.name,
+                description: project.id.substring(0, project.id.lastIndexOf('/')),
+                detail: rank === -1 ? undefined : `$(history) #${rank + 1} · opened ${usage.openCount} ${usage.openCount === 1 ? 'time' : 'times'}`,
+                iconPath: await this.colorIcons.getIcon(project.color),
+                buttons: OPEN_BUTTONS,
+                projectId: project.id
+            };
+        };
+
+        const recentItems = await Promise.all(recentIds.map(projectId => toItem(projects.find(project => project.id === projectId)!)));
+        // The other projects are listed in the order of the dashboard
+        const otherItems = await Promise.all(this.configManager.getOrderedProjects(config)
+            .filter(project => !projectUsage[project.id])
+            .map(toItem));
+
+        if (recentItems.length === 0) {
+            return otherItems;
+        }
+        return [
+            { label: 'Recently Opened', kind: vscode.QuickPickItemKind.Separator, projectId: '' },
+            ...recentItems,
+            { label: 'All Projects', kind: vscode.QuickPickItemKind.Separator, projectId: '' },
+            ...otherItems
+        ];
+    }
+}
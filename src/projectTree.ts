@@ -0,0 +1,194 @@
+import * as vscode from 'vscode';
+import { ColorIcons } from './colorIcons';
+import { ConfigManager, GroupStateChangeEvent, ProjectConfig } from './configManager';
+
+/**
+ * A node of the projects tree. Nodes only hold keys, the data is read from the config when
+ * the tree item is built. Project nodes have the same shape as the webview context of a card,
+ * so commands work with both.
+ */
+export type ProjectTreeNode =
+    | { kind: 'baseFolder'; baseFolderName: string }
+    | { kind: 'group'; groupKey: string }
+    | { kind: 'project'; projectId: string };
+
+export const PROJECT_TREE_VIEW_ID = 'syncableProjectDashboard.projects';
+
+/**
+ * Activity bar view mirroring the dashboard: base folders, their nested groups and projects.
+ * Expanded groups are shared with the dashboard through the `groupStates` of the config.
+ */
+export class ProjectTree implements vscode.TreeDataProvider<ProjectTreeNode>, vscode.Disposable {
+    private configManager: ConfigManager;
+    private colorIcons: ColorIcons;
+    private treeView: vscode.TreeView<ProjectTreeNode>;
+    private disposables: vscode.Disposable[] = [];
+    private onDidChangeTreeDataEmitter = new vscode.EventEmitter<ProjectTreeNode | undefined>();
+
+    /**
+     * Expanded state of the groups as shown in the tree, to tell changes made elsewhere apart
+     */
+    private shownGroupStates = new Map<string, boolean>();
+
+    /**
+     * The tree keeps the expanded state of an item as long as its id stays the same, so a group
+     * expanded or collapsed on the dashboard gets a new id to apply its saved state
+     */
+    private groupGenerations = new Map<string, number>();
+
+    public readonly onDidChangeTreeData = this.onDidChangeTreeDataEmitter.event;
+
+    constructor(configManager: ConfigManager, colorIcons: ColorIcons) {
+        this.configManager = configManager;
+        this.colorIcons = colorIcons;
+
+        this.treeView = vscode.window.createTreeView(PROJECT_TREE_VIEW_ID, {
+            treeDataProvider: this,
+            showCollapseAll: true
+        });
+
+        this.disposables.push(
+            this.treeView,
+            this.onDidChangeTreeDataEmitter,
+            this.treeView.onDidExpandElement(event => this.handleToggleGroup(event.element, true)),
+            this.treeView.onDidCollapseElement(event => this.handleToggleGroup(event.element, false)),
+            configManager.onDidChangeGroupState(event => this.applyGroupState(event)),
+            configManager.onDidSaveConfig(() => this.refresh())
+        );
+    }
+
+    /**
+     * Re-read the whole tree from the config
+     */
+    public refresh(): void {
+        this.onDidChangeTreeDataEmitter.fire(undefined);
+    }
+
+    public getChildren(node?: ProjectTreeNode): ProjectTreeNode[] {
+        const config = this.configManager.getConfig();
+        const projectsData = config.projectsData || {};
+
+        if (!node) {
+            return this.configManager.getBaseFolders().map(baseFolder => ({ kind: 'baseFolder', baseFolderName: baseFolder.name }));
+        }
+        if (node.kind === 'project') {
+            return [];
+        }
+
+        const groupKey = node.kind === 'group' ? node.groupKey : this.configManager.getGroupKey(node.baseFolderName, '');
+        const baseFolder = this.configManager.getBaseFolder(this.configManager.splitKey(groupKey).baseFolderName);
+        if (!baseFolder) {
+            return [];
+        }
+
+        const childGroups = this.configManager.getChildGroups(baseFolder, projectsData);
+        return [
+            ...(childGroups[groupKey] || []).map((childKey): ProjectTreeNode => ({ kind: 'group', groupKey: childKey })),
+            ...this.configManager.getSortedProjects(config, groupKey).map((project): ProjectTreeNode => ({ kind: 'project', projectId: project.id }))
+        ];
+    }
+
+    public async getTreeItem(node: ProjectTreeNode): Promise<vscode.TreeItem> {
+        const config = this.configManager.getConfig();
+
+        switch (node.kind) {
+            case 'baseFolder': {
+                const baseFolder = this.configManager.getBaseFolder(node.baseFolderName);
+                const item = new vscode.TreeItem(node.baseFolderName, vscode.TreeItemCollapsibleState.Expanded);
+                item.id = `baseFolder:${node.baseFolderName}`;
+                item.description = baseFolder?.path;
+                item.iconPath = new vscode.ThemeIcon('root-folder');
+                item.contextValue = 'baseFolder';
+                return item;
+            }
+            case 'group':
+                return this.getGroupItem(node.groupKey, config);
+            case 'project':
+                return this.getProjectItem(node.projectId, config);
+        }
+    }
+
+    /**
+     * Build the item of a folder group, collapsed unless it was saved as expanded
+     */
+    private getGroupItem(groupKey: string, config: ProjectConfig): vscode.TreeItem {
+        const expanded = config.groupStates?.[groupKey] === true;
+        this.shownGroupStates.set(groupKey, expanded);
+
+        const projectsData = config.projectsData || {};
+        const projectCount = Object.keys(projectsData)
+            .filter(key => this.configManager.isGroupOrDescendant(key, groupKey))
+            .reduce((count, key) => count + projectsData[key].length, 0);
+
+        const item = new vscode.TreeItem(
+            groupKey.substring(groupKey.lastIndexOf('/') + 1),
+            expanded ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed
+        );
+        item.id = `group:${groupKey}#${this.groupGenerations.get(groupKey) || 0}`;
+        item.description = `${projectCount}`;
+        item.tooltip = `${groupKey} (${projectCount} projects)`;
+        item.iconPath = new vscode.ThemeIcon('folder');
+        item.contextValue = 'group';
+        return item;
+    }
+
+    /**
+     * Build the item of a project, with its color as the icon and its branch as the description
+     */
+    private async getProjectItem(projectId: string, config: ProjectConfig): Promise<vscode.TreeItem> {
+        const project = this.configManager.findProject(config, projectId);
+        const item = new vscode.TreeItem(project?.name || projectId, vscode.TreeItemCollapsibleState.None);
+        item.id = `project:${projectId}`;
+        item.contextValue = 'project';
+        if (!project) {
+            return item;
+        }
+
+        item.iconPath = project.workspaceFile
+            ? new vscode.ThemeIcon('multiple-windows')
+            : await this.colorIcons.getIcon(project.color, new vscode.ThemeIcon('repo'));
+        if (project.git) {
+            item.description = `${project.git.branch || 'detached'}${project.git.dirty > 0 ? ' ●' : ''}`;
+        }
+
+        const tooltip = new vscode.MarkdownString();
+        tooltip.appendText(this.configManager.resolvePath(projectId));
+        const details = [...(project.languages || []), ...(project.frameworks || []), ...this.configManager.getProjectTags(config, project).map(tag => `#${tag}`)];
+        if (details.length > 0) {
+            tooltip.appendText(`\n\n${details.join(' · ')}`);
+        }
+        if (project.git?.lastCommitSubject) {
+            tooltip.appendText(`\n\nLast commit: ${project.git.lastCommitSubject}`);
+        }
+        item.tooltip = tooltip;
+        return item;
+    }
+
+    /**
+     * Save a group expanded or collapsed in the tree, the dashboard follows through the group state event
+     */
+    private handleToggleGroup(node: ProjectTreeNode, expanded: boolean): void {
+        if (node.kind !== 'group') {
+            return;
+        }
+        this.shownGroupStates.set(node.groupKey, expanded);
+        this.configManager.setGroupExpanded(node.groupKey, expanded).catch(error => {
+            console.error(`Error saving the state of group ${node.groupKey}:`, error);
+        });
+    }
+
+    /**
+     * Apply a group expanded or collapsed elsewhere
+     */
+    private applyGroupState(event: GroupStateChangeEvent): void {
+        if (this.shownGroupStates.get(event.groupKey) === event.expanded) {
+            return;
+        }
+        this.groupGenerations.set(event.groupKey, (this.groupGenerations.get(event.groupKey) || 0) + 1);
+        this.refresh();
+    }
+
+    public dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+}
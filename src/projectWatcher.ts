@@ -0,0 +1,258 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { BaseFolder, ConfigManager } from './configManager';
+import { isMarker } from './projectScanner';
+
+export interface ProjectsChangeEvent {
+    baseFolderName: string;
+    groupKey?: string; // Group that was rescanned, undefined when the whole base folder was rescanned
+    projectId?: string; // Project whose settings changed
+}
+
+/**
+ * Watches the base folders and the projects' .vscode/settings.json files
+ * and applies changes to the scanned projects data as they happen.
+ */
+export class ProjectWatcher implements vscode.Disposable {
+    private configManager: ConfigManager;
+    private watchers: vscode.Disposable[] = [];
+    private watchedFolders = '';
+    private pendingChanges = new Map<string, Set<string>>(); // Base folder name -> changed paths
+    private debounceTimer: NodeJS.Timeout | undefined;
+    private processing: Promise<void> = Promise.resolve();
+    private configListener: vscode.Disposable;
+    private onDidChangeProjectsEmitter = new vscode.EventEmitter<ProjectsChangeEvent>();
+
+    /**
+     * Fired after a change on disk has been applied to the projects data
+     */
+    public readonly onDidChangeProjects = this.onDidChangeProjectsEmitter.event;
+
+    constructor(configManager: ConfigManager) {
+        this.configManager = configManager;
+
+        // Base folders and their layouts can change with any save
+        this.configListener = this.configManager.onDidSaveConfig(() => this.updateWatchers());
+        this.updateWatchers();
+    }
+
+    /**
+     * Recreate the file system watchers when the base folders or their layouts changed
+     */
+    private updateWatchers(): void {
+        const baseFolders = this.configManager.getBaseFolders();
+        const watchedFolders = JSON.stringify(baseFolders);
+        if (watchedFolders === this.watchedFolders) {
+            return;
+        }
+        this.watchedFolders = watchedFolders;
+
+        this.disposeWatchers();
+        for (const baseFolder of baseFolders) {
+            this.watchers.push(...this.createWatchers(baseFolder));
+        }
+    }
+
+    /**
+     * Create the watchers of a single base folder
+     */
+    private createWatchers(baseFolder: BaseFolder): vscode.FileSystemWatcher[] {
+        const rules = this.configManager.getScanner().getLayoutRules(baseFolder);
+
+        // Only the levels where groups and projects can appear, not the files inside the projects
+        const levels: string[] = [];
+        for (let depth = 1; depth <= rules.maxDepth; depth++) {
+            levels.push(new Array(depth).fill('*').join('/'));
+        }
+
+        const baseUri = vscode.Uri.file(baseFolder.path);
+        const structureWatcher = vscode.workspace.createFileSystemWatcher(
+            new vscode.RelativePattern(baseUri, `{${levels.join(',')}}`),
+            false, true, false
+        );
+        const settingsWatcher = vscode.workspace.createFileSystemWatcher(
+            new vscode.RelativePattern(baseUri, `{${levels.join(',')}}/.vscode/settings.json`)
+        );
+
+        const onChange = (uri: vscode.Uri) => this.queueChange(baseFolder, uri);
+        structureWatcher.onDidCreate(onChange);
+        structureWatcher.onDidDelete(onChange);
+        settingsWatcher.onDidCreate(onChange);
+        settingsWatcher.onDidChange(onChange);
+        settingsWatcher.onDidDelete(onChange);
+        const watchers = [structureWatcher, settingsWatcher];
+
+        // A folder becomes a project when one of the marker files appears in it
+        if (rules.mode === 'markers') {
+            const markerWatcher = vscode.workspace.createFileSystemWatcher(
+                new vscode.RelativePattern(baseUri, `{${levels.join(',')}}/{${rules.markers.join(',')}}`),
+                false, true, false
+            );
+            markerWatcher.onDidCreate(onChange);
+            markerWatcher.onDidDelete(onChange);
+            watchers.push(markerWatcher);
+        }
+
+        return watchers;
+    }
+
+    /**
+     * Collect changes for a short while, a clone or a move produces many events at once
+     */
+    public queueChange(baseFolder: BaseFolder, uri: vscode.Uri): void {
+        let changedPaths = this.pendingChanges.get(baseFolder.name);
+        if (!changedPaths) {
+            changedPaths = new Set();
+            this.pendingChanges.set(baseFolder.name, changedPaths);
+        }
+        changedPaths.add(uri.fsPath);
+
+        if (this.debounceTimer) {
+            clearTimeout(this.debounceTimer);
+        }
+        this.debounceTimer = setTimeout(() => {
+            this.debounceTimer = undefined;
+            const pendingChanges = this.pendingChanges;
+            this.pendingChanges = new Map();
+            this.processing = this.processing
+                .then(() => this.processChanges(pendingChanges))
+                .catch(error => console.error('Error applying project changes:', error));
+        }, 500);
+    }
+
+    /**
+     * Apply the collected changes to the projects data, rescanning as little as possible
+     */
+    private async processChanges(pendingChanges: Map<string, Set<string>>): Promise<void> {
+        for (const [baseFolderName, changedPaths] of pendingChanges) {
+            const baseFolder = this.configManager.getBaseFolder(baseFolderName);
+            if (!baseFolder) {
+                continue;
+            }
+
+            const projectIds = new Set<string>();
+            let groupKeys = new Set<string>();
+            let rescanBaseFolder = false;
+            const ignoreRules = await this.configManager.getScanner().getIgnoreRules(baseFolder);
+            const rules = this.configManager.getScanner().getLayoutRules(baseFolder);
+            const scannedIds = new Set(Object.values(this.configManager.getConfig().projectsData || {}).flat().map(project => project.id));
+
+            for (const changedPath of changedPaths) {
+                const relativePath = path.relative(baseFolder.path, changedPath).split(path.sep).join('/');
+                if (!relativePath || relativePath.startsWith('..')) {
+                    continue;
+                }
+                const segments = relativePath.split('/');
+                const ancestors = segments.map((_, index) => segments.slice(0, index + 1).join('/'));
+
+                // Changes in excluded folders, e.g. node_modules or build output, never change the projects
+                if (ancestors.some(ancestor => ignoreRules.isIgnored(ancestor))) {
+                    continue;
+                }
+
+                // A changed settings file only affects the color and tags of its project
+                const settingsMatch = /^(.+)\/\.vscode\/settings\.json$/.exec(relativePath);
+                if (settingsMatch) {
+                    projectIds.add(this.configManager.getGroupKey(baseFolder.name, settingsMatch[1]));
+                    continue;
+                }
+
+                // Work inside a project only matters when a marker of the project itself is added or removed
+                const projectIndex = ancestors.findIndex((ancestor, index) =>
+                    index < ancestors.length - 1 && scannedIds.has(this.configManager.getGroupKey(baseFolder.name, ancestor)));
+                if (projectIndex !== -1) {
+                    const isProjectMarker = rules.mode === 'markers'
+                        && projectIndex === segments.length - 2
+                        && isMarker(segments[segments.length - 1], rules.markers);
+                    if (!isProjectMarker) {
+                        continue;
+                    }
+                }
+
+                // Otherwise rescan the nearest group containing the changed folder
+                const groupKey = this.findNearestGroup(baseFolder, relativePath);
+                if (groupKey) {
+                    groupKeys.add(groupKey);
+                } else {
+                    rescanBaseFolder = true;
+                }
+            }
+
+            if (rescanBaseFolder) {
+                await this.refreshGroup(baseFolder, undefined);
+                groupKeys = new Set();
+            }
+
+            // Nested groups are rescanned together with their ancestors
+            for (const groupKey of groupKeys) {
+                const hasAncestor = [...groupKeys].some(other =>
+                    other !== groupKey && this.configManager.isGroupOrDescendant(groupKey, other));
+                if (!hasAncestor) {
+                    await this.refreshGroup(baseFolder, groupKey);
+                }
+            }
+
+            for (const projectId of projectIds) {
+                if (await this.configManager.refreshProjectSettings(projectId)) {
+                    this.onDidChangeProjectsEmitter.fire({ baseFolderName: baseFolder.name, projectId: projectId });
+                }
+            }
+        }
+    }
+
+    /**
+     * Rescan a group, or the whole base folder when no group is given, and announce the change.
+     * Falls back to the parent group when the group folder itself has been removed.
+     */
+    private async refreshGroup(baseFolder: BaseFolder, groupKey: string | undefined): Promise<void> {
+        try {
+            await this.configManager.refreshGroup(groupKey || this.configManager.getGroupKey(baseFolder.name, ''));
+        } catch (error) {
+            if (!groupKey) {
+                throw error;
+            }
+            const parentKey = this.findNearestGroup(baseFolder, this.configManager.splitKey(groupKey).relativePath);
+            await this.refreshGroup(baseFolder, parentKey);
+            return;
+        }
+
+        this.onDidChangeProjectsEmitter.fire({ baseFolderName: baseFolder.name, groupKey: groupKey });
+    }
+
+    /**
+     * Find the deepest scanned group that contains the parent folder of a changed path.
+     * Returns undefined when only a rescan of the whole base folder can place the change.
+     */
+    private findNearestGroup(baseFolder: BaseFolder, relativePath: string): string | undefined {
+        const projectsData = this.configManager.getConfig().projectsData || {};
+        const segments = relativePath.split('/');
+
+        for (let length = segments.length - 1; length > 0; length--) {
+            const groupKey = this.configManager.getGroupKey(baseFolder.name, segments.slice(0, length).join('/'));
+            if (groupKey in projectsData) {
+                return groupKey;
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Dispose the current file system watchers
+     */
+    private disposeWatchers(): void {
+        for (const watcher of this.watchers) {
+            watcher.dispose();
+        }
+        this.watchers = [];
+    }
+
+    public dispose(): void {
+        if (this.debounceTimer) {
+            clearTimeout(this.debounceTimer);
+        }
+        this.disposeWatchers();
+        this.configListener.dispose();
+        this.onDidChangeProjectsEmitter.dispose();
+    }
+}
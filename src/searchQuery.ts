@@ -0,0 +1,101 @@
+// The functions in this file are also injected into the dashboard webview with Function.toString(),
+// so they must not use anything outside of this file except each other.
+
+export interface SearchTerm {
+    negated: boolean;
+    qualifier?: string;
+    value: string;
+    isPhrase: boolean;
+}
+
+export interface FuzzyMatch {
+    score: number;
+    indices: number[];
+}
+
+/**
+ * Split a search query into fuzzy matched words, "quoted phrases", qualifiers such as
+ * tag:backend and negation with a leading "-". Unknown qualifiers are searched for as text.
+ */
+export function parseQuery(query: string, qualifierNames: readonly string[]): SearchTerm[] {
+    const terms: SearchTerm[] = [];
+    const pattern = /(-?)(?:([a-z]+):)?(?:"([^"]*)"?|(\S+))/gi;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(query)) !== null) {
+        const negation = match[1];
+        let qualifier: string | undefined = match[2];
+        let phrase: string | undefined = match[3];
+        let word: string | undefined = match[4];
+        if (qualifier && !qualifierNames.includes(qualifier.toLowerCase())) {
+            word = qualifier + ':' + (phrase !== undefined ? phrase : word);
+            qualifier = undefined;
+            phrase = undefined;
+        }
+        if (!qualifier && word !== undefined) {
+            // Skip a lone "-" and a qualifier that is still being typed, e.g. "tag:"
+            const typedQualifier = /^([a-z]+):$/i.exec(word);
+            if (word === '-' || (typedQualifier && qualifierNames.includes(typedQualifier[1].toLowerCase()))) {
+                continue;
+            }
+        }
+        const value = (phrase !== undefined ? phrase : word || '').toLowerCase();
+        if (!value && !qualifier) {
+            continue;
+        }
+        terms.push({
+            negated: negation === '-',
+            qualifier: qualifier && qualifier.toLowerCase(),
+            value: value,
+            isPhrase: phrase !== undefined
+        });
+    }
+    return terms;
+}
+
+/**
+ * Whether a word starts at the index, after a separator or at a camelCase hump
+ */
+export function isWordStart(text: string, index: number): boolean {
+    if (index === 0) {
+        return true;
+    }
+    const previous = text[index - 1];
+    const current = text[index];
+    return /[\s\-_./]/.test(previous) || (previous === previous.toLowerCase() && current !== current.toLowerCase());
+}
+
+/**
+ * Match the characters of the lowercase pattern in order, preferring consecutive characters and word starts.
+ * Returns the score and the matched character positions, or null when the text does not match.
+ */
+export function fuzzyMatch(text: string, pattern: string): FuzzyMatch | null {
+    const lowerText = text.toLowerCase();
+    const start = lowerText.indexOf(pattern);
+    if (start !== -1) {
+        const indices: number[] = [];
+        for (let index = start; index < start + pattern.length; index++) {
+            indices.push(index);
+        }
+        return { score: 100 + (start === 0 ? 50 : isWordStart(text, start) ? 25 : 0) - start, indices: indices };
+    }
+
+    const indices: number[] = [];
+    let score = 0;
+    let position = 0;
+    for (const char of pattern) {
+        const index = lowerText.indexOf(char, position);
+        if (index === -1) {
+            return null;
+        }
+        if (indices.length > 0 && index === indices[indices.length - 1] + 1) {
+            score += 5;
+        } else if (isWordStart(text, index)) {
+            score += 3;
+        } else {
+            score += 1;
+        }
+        indices.push(index);
+        position = index + 1;
+    }
+    return { score: score, indices: indices };
+}
@@ -0,0 +1,69 @@
+import * as assert from 'assert';
+import { ProjectConfig } from '../configManager';
+import { describeConfigDiff, diffConfigs, isEmptyDiff, summarizeConfigDiff } from '../configDiff';
+
+suite('Config Diff', () => {
+	const before: ProjectConfig = {
+		baseFolders: [{ name: 'work', path: '/work' }],
+		projectsData: {
+			'work/api': [
+				{ name: 'payment', id: 'work/api/payment', git: { dirty: 0 } },
+				{ name: 'orders', id: 'work/api/orders' }
+			]
+		},
+		favorites: ['work/api/payment'],
+		projectTags: { 'work/api/payment': ['backend'] },
+		projectUsage: { 'work/api/payment': { lastOpened: 1, openCount: 1 } }
+	};
+
+	const after: ProjectConfig = {
+		baseFolders: [{ name: 'work', path: '/work' }],
+		projectsData: {
+			'work/api': [{ name: 'payment', id: 'work/api/payment', git: { dirty: 3 }, size: 1024 }],
+			'work/web': [{ name: 'shop', id: 'work/web/shop' }]
+		},
+		favorites: ['work/api/payment', 'work/web/shop'],
+		projectTags: { 'work/api/payment': ['backend', 'billing'] },
+		projectUsage: { 'work/api/payment': { lastOpened: 2, openCount: 2 } },
+		sort: { groups: 'desc' },
+		customOrder: { projects: { 'work/api': ['work/api/payment'] } }
+	};
+
+	test('lists the added, removed and changed entries of each part', () => {
+		const diff = diffConfigs(before, after);
+
+		assert.deepStrictEqual(diff.groups, { added: ['work/web'], removed: [], changed: ['work/api'] });
+		assert.deepStrictEqual(diff.projects, { added: ['work/web/shop'], removed: ['work/api/orders'], changed: [] });
+		assert.deepStrictEqual(diff.favorites, { added: ['work/web/shop'], removed: [], changed: [] });
+		assert.deepStrictEqual(diff.projectTags, { added: [], removed: [], changed: ['work/api/payment'] });
+		assert.deepStrictEqual(diff.projectUsage, { added: [], removed: [], changed: ['work/api/payment'] });
+		assert.deepStrictEqual(diff.sort, { added: ['(groups)', 'work/api (custom order)'], removed: [], changed: [] });
+		assert.deepStrictEqual(diff.baseFolders, { added: [], removed: [], changed: [] });
+	});
+
+	test('finds no differences between equal configs', () => {
+		const diff = diffConfigs(before, structuredClone(before));
+
+		assert.ok(isEmptyDiff(diff));
+		assert.strictEqual(summarizeConfigDiff(diff), 'No differences');
+		assert.strictEqual(describeConfigDiff(diff), 'No differences');
+	});
+
+	test('summarizes and describes the changes', () => {
+		const diff = diffConfigs(before, after);
+
+		assert.ok(!isEmptyDiff(diff));
+		assert.strictEqual(
+			summarizeConfigDiff(diff),
+			'Groups: 1 added, 1 changed · Projects: 1 added, 1 removed · Favorites: 1 added · Tags: 1 changed · Sort order: 2 added · Usage: 1 changed'
+		);
+		assert.strictEqual(describeConfigDiff(diff, 1), [
+			'Groups:', '  + work/web', '  … and 1 more',
+			'Projects:', '  + work/web/shop', '  … and 1 more',
+			'Favorites:', '  + work/web/shop',
+			'Tags:', '  ~ work/api/payment',
+			'Sort order:', '  + (groups)', '  … and 1 more',
+			'Usage:', '  ~ work/api/payment'
+		].join('\n'));
+	});
+});
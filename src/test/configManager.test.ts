@@ -0,0 +1,162 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigManager, ProjectConfig } from '../configManager';
+import { CONFIG_SCHEMA_VERSION } from '../configSchema';
+import { createFakeContext } from './fakeContext';
+
+suite('Config Manager', () => {
+	const config: ProjectConfig = {
+		schemaVersion: CONFIG_SCHEMA_VERSION,
+		baseFolders: [{ name: 'work', path: '/home/me/work', layout: { mode: 'flat' } }],
+		unmappedBaseFolders: [{ name: 'play' }],
+		projectsData: { work: [{ name: 'api', id: 'work/api' }] },
+		lastScanTime: 1700000000000,
+		projectUsage: { 'work/api': { lastOpened: 1700000000000, openCount: 3 } },
+		favorites: ['work/api']
+	};
+
+	// Stored values are compared without the properties that are undefined
+	const plain = (value: unknown) => JSON.parse(JSON.stringify(value));
+
+	test('keeps paths, scan results and usage out of the synced configuration', async () => {
+		const state: { [key: string]: unknown } = {};
+		await new ConfigManager(createFakeContext(state)).saveConfig(config);
+
+		assert.deepStrictEqual(plain(state['syncableProjectDashboard.config']), {
+			schemaVersion: CONFIG_SCHEMA_VERSION,
+			baseFolders: [{ name: 'work', layout: { mode: 'flat' } }, { name: 'play' }],
+			favorites: ['work/api']
+		});
+		assert.deepStrictEqual(state['syncableProjectDashboard.machine'], {
+			baseFolderPaths: { work: '/home/me/work' },
+			projectsData: config.projectsData,
+			lastScanTime: config.lastScanTime,
+			projectUsage: config.projectUsage
+		});
+
+		// Another window reads both parts back into the same configuration
+		assert.deepStrictEqual(plain(new ConfigManager(createFakeContext(state)).getConfig()), config);
+	});
+
+	test('applies a synced configuration without losing what belongs to this machine', async () => {
+		const state: { [key: string]: unknown } = {};
+		const configManager = new ConfigManager(createFakeContext(state));
+		await configManager.saveConfig(config);
+
+		await configManager.applySyncedConfig({
+			schemaVersion: CONFIG_SCHEMA_VERSION,
+			baseFolders: [{ name: 'work' }, { name: 'home' }],
+			favorites: []
+		});
+
+		assert.deepStrictEqual(plain(configManager.getConfig()), {
+			schemaVersion: CONFIG_SCHEMA_VERSION,
+			baseFolders: [{ name: 'work', path: '/home/me/work' }],
+			unmappedBaseFolders: [{ name: 'home' }],
+			projectsData: config.projectsData,
+			lastScanTime: config.lastScanTime,
+			projectUsage: config.projectUsage,
+			favorites: []
+		});
+	});
+
+	test('undo restores the configuration saved before the last change', async () => {
+		const configManager = new ConfigManager(createFakeContext());
+		await configManager.saveConfig(config);
+		await configManager.saveConfig({ ...configManager.getConfig(), favorites: [] }, 'Remove work/api from favorites');
+
+		const snapshot = await configManager.undo();
+
+		assert.strictEqual(snapshot?.action, 'Remove work/api from favorites');
+		assert.deepStrictEqual(configManager.getConfig().favorites, ['work/api']);
+		assert.deepStrictEqual(configManager.getHistory(), []);
+		assert.strictEqual(await configManager.undo(), undefined);
+	});
+
+	test('an undone change is gone from the history once a new change is saved', async () => {
+		const configManager = new ConfigManager(createFakeContext());
+		await configManager.saveConfig(config);
+		await configManager.saveConfig({ ...configManager.getConfig(), favorites: [] }, 'Remove work/api from favorites');
+		await configManager.saveConfig({ ...configManager.getConfig(), hiddenProjects: ['work/api'] }, 'Hide work/api');
+		await configManager.undo();
+
+		await configManager.saveConfig({ ...configManager.getConfig(), favorites: ['work/web'] }, 'Add work/web to favorites');
+
+		const history = configManager.getHistory();
+		assert.deepStrictEqual(history.map(entry => entry.action), ['Remove work/api from favorites', 'Add work/web to favorites']);
+		assert.ok(history.every(entry => entry.config.hiddenProjects === undefined));
+		assert.deepStrictEqual(history.map(entry => entry.config.favorites), [['work/api'], []]);
+	});
+
+	test('projects arranged by hand keep their order and new projects follow by name', async () => {
+		const configManager = new ConfigManager(createFakeContext());
+		await configManager.saveConfig({
+			...config,
+			projectsData: { work: ['web', 'api', 'cli'].map(name => ({ name: name, id: `work/${name}` })) }
+		});
+
+		await configManager.setProjectOrder('work', ['work/web', 'work/api']);
+		const arranged = configManager.getConfig();
+		assert.deepStrictEqual(configManager.getProjectSort(arranged, 'work'), [{ key: 'manual' }]);
+		assert.deepStrictEqual(configManager.getSortedProjects(arranged, 'work').map(project => project.name), ['web', 'api', 'cli']);
+
+		const newProjects = [...arranged.projectsData!.work, { name: 'app', id: 'work/app' }];
+		assert.deepStrictEqual(configManager.getSortedProjects(arranged, 'work', newProjects).map(project => project.name), ['web', 'api', 'app', 'cli']);
+
+		await configManager.resetOrder('work');
+		assert.deepStrictEqual(configManager.getSortedProjects(configManager.getConfig(), 'work').map(project => project.name), ['api', 'cli', 'web']);
+	});
+
+	test('writes project colors into settings files and keeps their comments', async () => {
+		const basePath = fs.mkdtempSync(path.join(os.tmpdir(), 'project-dashboard-'));
+		try {
+			const settingsPath = path.join(basePath, 'api', '.vscode', 'settings.json');
+			const workspacePath = path.join(basePath, 'web.code-workspace');
+			fs.mkdirSync(path.dirname(settingsPath), { recursive: true });
+			fs.writeFileSync(settingsPath, [
+				'{',
+				'  // Colors of this project',
+				'  "workbench.colorCustomizations": {',
+				'    "activityBar.background": "#ff0000", // Red like production',
+				'  },',
+				'  "editor.tabSize": 2',
+				'}',
+				''
+			].join('\n'));
+			fs.writeFileSync(workspacePath, '{\n\t// Opened from the dashboard\n\t"folders": [{ "path": "web" }]\n}\n');
+
+			const configManager = new ConfigManager(createFakeContext());
+			await configManager.saveConfig({
+				baseFolders: [{ name: 'work', path: basePath, layout: { mode: 'flat' } }],
+				projectsData: { work: [{ name: 'api', id: 'work/api', color: '#ff0000' }, { name: 'web.code-workspace', id: 'work/web.code-workspace', workspaceFile: true }] }
+			});
+
+			assert.strictEqual(await configManager.setProjectColor('work/api', '#00ff00'), true);
+			assert.strictEqual(fs.readFileSync(settingsPath, 'utf-8'), [
+				'{',
+				'  // Colors of this project',
+				'  "workbench.colorCustomizations": {',
+				'    "activityBar.background": "#00ff00", // Red like production',
+				'  },',
+				'  "editor.tabSize": 2',
+				'}',
+				''
+			].join('\n'));
+
+			assert.strictEqual(await configManager.setProjectColor('work/web.code-workspace', '#0000ff'), true);
+			const workspace = fs.readFileSync(workspacePath, 'utf-8');
+			assert.ok(workspace.includes('\t// Opened from the dashboard\n'));
+			assert.ok(/"settings": \{\n\t\t"workbench.colorCustomizations": \{\n\t\t\t"activityBar.background": "#0000ff"/.test(workspace));
+
+			assert.strictEqual(await configManager.setProjectColor('work/api', undefined), true);
+			const cleared = fs.readFileSync(settingsPath, 'utf-8');
+			assert.ok(cleared.includes('// Colors of this project') && cleared.includes('"editor.tabSize": 2'));
+			assert.ok(!cleared.includes('activityBar.background'));
+			assert.deepStrictEqual(configManager.getConfig().projectsData?.work.map(project => project.color), [undefined, '#0000ff']);
+		} finally {
+			fs.rmSync(basePath, { recursive: true, force: true });
+		}
+	});
+});
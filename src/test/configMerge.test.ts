@@ -0,0 +1,63 @@
+import * as assert from 'assert';
+import { mergeConfigParts, mergeValues } from '../configMerge';
+import { ProjectConfig } from '../configManager';
+
+suite('Config Merge', () => {
+	test('keeps changes made on one side only', () => {
+		const base = { viewMode: 'grid', theme: 'dark' };
+		const local = { viewMode: 'list', theme: 'dark' };
+		const incoming = { viewMode: 'grid', theme: 'light' };
+
+		assert.deepStrictEqual(mergeValues(base, local, incoming, 'local'), { viewMode: 'list', theme: 'light' });
+	});
+
+	test('takes values changed on both sides from the preferred side', () => {
+		const base = { viewMode: 'grid' };
+		const local = { viewMode: 'list' };
+		const incoming = { viewMode: 'compact' };
+
+		assert.deepStrictEqual(mergeValues(base, local, incoming, 'local'), { viewMode: 'list' });
+		assert.deepStrictEqual(mergeValues(base, local, incoming, 'incoming'), { viewMode: 'compact' });
+	});
+
+	test('merges lists of strings item by item', () => {
+		const base = ['a', 'b', 'c'];
+		const local = ['a', 'c', 'd'];
+		const incoming = ['c', 'b', 'e'];
+
+		assert.deepStrictEqual(mergeValues(base, local, incoming, 'incoming'), ['c', 'd', 'e']);
+	});
+
+	test('removes keys deleted on one side', () => {
+		const base = { 'work/app': 'red', 'work/lib': 'blue' };
+		const local = { 'work/app': 'red' };
+		const incoming = { 'work/app': 'red', 'work/lib': 'blue', 'work/web': 'green' };
+
+		assert.deepStrictEqual(mergeValues(base, local, incoming, 'incoming'), { 'work/app': 'red', 'work/web': 'green' });
+	});
+
+	test('merges lists of named objects by name', () => {
+		const base = [{ name: 'On-call', projects: ['work/api'] }, { name: 'Old', projects: [] }];
+		const local = [{ name: 'On-call', projects: ['work/api', 'work/web'] }, { name: 'Old', projects: [] }];
+		const incoming = [{ name: 'On-call', projects: ['work/api', 'work/db'] }, { name: 'New', projects: ['work/app'] }];
+
+		assert.deepStrictEqual(mergeValues(base, local, incoming, 'local'), [
+			{ name: 'On-call', projects: ['work/api', 'work/web', 'work/db'] },
+			{ name: 'New', projects: ['work/app'] }
+		]);
+	});
+
+	test('imports only the chosen parts with the chosen strategy', () => {
+		const local: ProjectConfig = { favorites: ['work/api'], sort: { groups: 'asc' }, hiddenProjects: ['work/old'] };
+		const imported: ProjectConfig = { favorites: ['work/web'], sort: { groups: 'desc' }, hiddenProjects: [] };
+
+		assert.deepStrictEqual(mergeConfigParts(local, imported, ['favorites', 'sort'], 'mergePreferLocal'), {
+			favorites: ['work/api', 'work/web'],
+			sort: { groups: 'asc' },
+			hiddenProjects: ['work/old'],
+			unmappedBaseFolders: undefined
+		});
+		assert.deepStrictEqual(mergeConfigParts(local, imported, ['sort'], 'mergePreferImported').sort, { groups: 'desc' });
+		assert.deepStrictEqual(mergeConfigParts(local, imported, ['favorites'], 'replace').favorites, ['work/web']);
+	});
+});
@@ -0,0 +1,98 @@
+import * as assert from 'assert';
+import { ConfigManager } from '../configManager';
+import { CONFIG_SCHEMA_VERSION, describeConfigProblems, formatConfigPath, removeInvalidValues, validateConfig } from '../configSchema';
+import { createFakeContext } from './fakeContext';
+
+suite('Config Schema', () => {
+	const invalidConfig = {
+		favorites: ['work/api', 42],
+		projectsData: { 'work/api': [{ name: 'payment-service' }, { name: 'web', id: 'work/api/web' }] },
+		sort: { groups: 'random' },
+		baseFolders: [{ name: 'a/b', path: '/a' }],
+		futureSetting: true
+	};
+
+	test('lists every invalid value with its path', () => {
+		assert.deepStrictEqual(validateConfig(invalidConfig), [
+			{ path: ['favorites', 1], message: 'must be a string' },
+			{ path: ['projectsData', 'work/api', 0], message: 'is missing id' },
+			{ path: ['sort', 'groups'], message: 'must be one of "asc", "desc", "manual"' },
+			{ path: ['baseFolders', 0, 'name'], message: 'must match ^[^/]+$' }
+		]);
+		assert.deepStrictEqual(validateConfig({ lastScanTime: 1.5, projectUsage: { 'work/api': { lastOpened: 1, openCount: -1 } } }), [
+			{ path: ['projectUsage', 'work/api', 'openCount'], message: 'must be at least 0' }
+		]);
+		assert.deepStrictEqual(validateConfig([]), [{ path: [], message: 'must be an object' }]);
+	});
+
+	test('formats the paths of problems', () => {
+		assert.strictEqual(formatConfigPath(['projectsData', 'work/api', 0, 'name']), 'config.projectsData["work/api"][0].name');
+		assert.strictEqual(
+			describeConfigProblems(validateConfig(invalidConfig), 2),
+			'config.favorites[1] must be a string; config.projectsData["work/api"][0] is missing id; and 2 more'
+		);
+	});
+
+	test('removes the invalid values and keeps the rest', () => {
+		assert.deepStrictEqual(removeInvalidValues(invalidConfig, validateConfig(invalidConfig)), {
+			favorites: ['work/api'],
+			projectsData: { 'work/api': [{ name: 'web', id: 'work/api/web' }] },
+			sort: {},
+			baseFolders: [{ path: '/a' }],
+			futureSetting: true
+		});
+		assert.deepStrictEqual(removeInvalidValues([], validateConfig([])), {});
+	});
+
+	test('migrates a config with a single base projects folder', () => {
+		const configManager = new ConfigManager(createFakeContext());
+
+		const config = configManager.parseConfig({
+			baseProjectsFolder: '/home/me/projects',
+			projectsData: { clients: [{ name: 'shop' }] },
+			groupStates: { clients: false },
+			favorites: ['projects/clients/shop']
+		});
+
+		assert.deepStrictEqual(config, {
+			schemaVersion: CONFIG_SCHEMA_VERSION,
+			baseFolders: [{ name: 'projects', path: '/home/me/projects' }],
+			projectsData: { 'projects/clients': [{ name: 'shop', id: 'projects/clients/shop' }] },
+			groupStates: { 'projects/clients': false },
+			favorites: ['projects/clients/shop']
+		});
+	});
+
+	test('rejects configs that cannot be used', () => {
+		const configManager = new ConfigManager(createFakeContext());
+
+		assert.throws(() => configManager.parseConfig('config'), /Invalid configuration: config must be an object/);
+		assert.throws(
+			() => configManager.parseConfig({ schemaVersion: CONFIG_SCHEMA_VERSION + 1 }),
+			/Invalid configuration: The configuration was written by a newer version/
+		);
+		assert.throws(
+			() => configManager.parseConfig({ schemaVersion: CONFIG_SCHEMA_VERSION, favorites: 'work/api' }),
+			/Invalid configuration: config.favorites must be an array/
+		);
+	});
+
+	test('validates synced configs and leaves out what only applies to one machine', () => {
+		const configManager = new ConfigManager(createFakeContext());
+
+		assert.deepStrictEqual(configManager.parseSyncedConfig({
+			schemaVersion: CONFIG_SCHEMA_VERSION,
+			baseFolders: [{ name: 'work' }],
+			favorites: ['work/api'],
+			lastScanTime: 1
+		}), {
+			schemaVersion: CONFIG_SCHEMA_VERSION,
+			baseFolders: [{ name: 'work', layout: undefined }],
+			favorites: ['work/api']
+		});
+		assert.throws(
+			() => configManager.parseSyncedConfig({ schemaVersion: CONFIG_SCHEMA_VERSION, favorites: [1] }),
+			/Invalid configuration: config.favorites\[0\] must be a string/
+		);
+	});
+});
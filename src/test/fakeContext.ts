@@ -0,0 +1,16 @@
+import * as vscode from 'vscode';
+
+/**
+ * An extension context keeping the global state in memory, enough for the ConfigManager
+ */
+export function createFakeContext(state: { [key: string]: unknown } = {}): vscode.ExtensionContext {
+	const globalState = {
+		keys: () => Object.keys(state),
+		get: <T>(key: string, defaultValue?: T) => (key in state ? state[key] : defaultValue) as T,
+		update: async (key: string, value: unknown) => {
+			state[key] = value;
+		},
+		setKeysForSync: () => undefined
+	};
+	return { subscriptions: [], globalState: globalState } as unknown as vscode.ExtensionContext;
+}
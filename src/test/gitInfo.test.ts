@@ -0,0 +1,36 @@
+import * as assert from 'assert';
+import { parseGitStatus } from '../gitInfo';
+
+suite('Git Info', () => {
+	test('reads the branch, upstream and ahead/behind counts', () => {
+		const output = [
+			'# branch.oid 5d1f2a9c0b7e4f3a2d1c0b9a8e7f6d5c4b3a2918',
+			'# branch.head main',
+			'# branch.upstream origin/main',
+			'# branch.ab +2 -5',
+			''
+		].join('\n');
+
+		assert.deepStrictEqual(parseGitStatus(output), { dirty: 0, branch: 'main', upstream: 'origin/main', ahead: 2, behind: 5 });
+	});
+
+	test('leaves out the branch of a detached HEAD and the counts without an upstream', () => {
+		assert.deepStrictEqual(parseGitStatus('# branch.oid 5d1f2a9\n# branch.head (detached)\n'), { dirty: 0, branch: undefined });
+		assert.deepStrictEqual(parseGitStatus('# branch.oid (initial)\n# branch.head feature/login\n'), { dirty: 0, branch: 'feature/login' });
+	});
+
+	test('counts changed, renamed, unmerged and untracked files', () => {
+		const output = [
+			'# branch.head main',
+			'1 .M N... 100644 100644 100644 3f2a1b4 3f2a1b4 src/app.ts',
+			'1 A. N... 000000 100644 100644 0000000 9c8d7e6 src/new.ts',
+			'2 R. N... 100644 100644 100644 4e5f6a7 4e5f6a7 R100 src/renamed.ts\tsrc/old.ts',
+			'u UU N... 100644 100644 100644 100644 1a2b3c4 5d6e7f8 9a0b1c2 package.json',
+			'? notes.txt',
+			'! build/',
+			''
+		].join('\n');
+
+		assert.strictEqual(parseGitStatus(output).dirty, 5);
+	});
+});
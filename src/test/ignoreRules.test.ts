@@ -0,0 +1,72 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigManager } from '../configManager';
+import { IgnoreRules, globToRegExp } from '../ignoreRules';
+import { createFakeContext } from './fakeContext';
+
+suite('Ignore Rules', () => {
+	test('globs match whole paths', () => {
+		assert.ok(globToRegExp('*.log').test('debug.log'));
+		assert.ok(!globToRegExp('*.log').test('logs/debug.log'));
+		assert.ok(globToRegExp('**/build').test('build'));
+		assert.ok(globToRegExp('**/build').test('work/app/build'));
+		assert.ok(globToRegExp('archive/**').test('archive/2019/old'));
+		assert.ok(globToRegExp('v?').test('v1'));
+		assert.ok(!globToRegExp('v?').test('v10'));
+		assert.ok(globToRegExp('{tmp,temp}').test('temp'));
+		assert.ok(globToRegExp('[!.]*').test('src'));
+		assert.ok(!globToRegExp('[!.]*').test('.cache'));
+		assert.ok(globToRegExp('a.b+c').test('a.b+c'));
+		assert.ok(!globToRegExp('a.b').test('axb'));
+	});
+
+	test('patterns without a slash match at any depth', () => {
+		const rules = new IgnoreRules();
+		rules.add('node_modules');
+		assert.ok(rules.isIgnored('node_modules'));
+		assert.ok(rules.isIgnored('work/app/node_modules'));
+		assert.ok(!rules.isIgnored('work/app'));
+	});
+
+	test('patterns with a slash are anchored to the base folder', () => {
+		const rules = new IgnoreRules();
+		rules.add('/clients/old/');
+		assert.ok(rules.isIgnored('clients/old'));
+		assert.ok(!rules.isIgnored('work/clients/old'));
+	});
+
+	test('the last matching rule wins and ! re-includes', () => {
+		const rules = new IgnoreRules();
+		rules.addLines('# Old client work\narchive/*\n\n!archive/keep\n');
+		assert.ok(rules.isIgnored('archive/old'));
+		assert.ok(!rules.isIgnored('archive/keep'));
+
+		rules.add('archive/keep');
+		assert.ok(rules.isIgnored('archive/keep'));
+		rules.add('archive/keep', true);
+		assert.ok(!rules.isIgnored('archive/keep'));
+	});
+
+	test('the scan skips excluded folders and hidden projects', async () => {
+		const baseFolderPath = fs.mkdtempSync(path.join(os.tmpdir(), 'project-dashboard-'));
+		try {
+			for (const folder of ['work/app', 'work/lib', 'archive/old', 'archive/keep']) {
+				fs.mkdirSync(path.join(baseFolderPath, folder), { recursive: true });
+			}
+			fs.writeFileSync(path.join(baseFolderPath, '.dashboardignore'), 'archive/*\n!archive/keep\n');
+			const configManager = new ConfigManager(createFakeContext({
+				'syncableProjectDashboard.config': { hiddenProjects: ['fixture/work/lib'] }
+			}));
+
+			const projectsData = await configManager.getScanner().scanBaseFolder({ name: 'fixture', path: baseFolderPath });
+
+			assert.deepStrictEqual(Object.keys(projectsData).sort(), ['fixture/archive', 'fixture/work']);
+			assert.deepStrictEqual(projectsData['fixture/work'].map(project => project.id), ['fixture/work/app']);
+			assert.deepStrictEqual(projectsData['fixture/archive'].map(project => project.id), ['fixture/archive/keep']);
+		} finally {
+			fs.rmSync(baseFolderPath, { recursive: true, force: true });
+		}
+	});
+});
@@ -0,0 +1,54 @@
+import * as assert from 'assert';
+import { findSettingsColor, formatCssColor, formatHexColor, getContrastRatio, getContrastTextColor, parseCssColor } from '../projectColors';
+
+suite('Project Colors', () => {
+	test('parses hex colors', () => {
+		assert.deepStrictEqual(parseCssColor('#ff8000'), { r: 255, g: 128, b: 0, a: 1 });
+		assert.deepStrictEqual(parseCssColor(' #F80 '), { r: 255, g: 136, b: 0, a: 1 });
+		assert.deepStrictEqual(parseCssColor('#ff800080'), { r: 255, g: 128, b: 0, a: 128 / 255 });
+		assert.deepStrictEqual(parseCssColor('#ff80'), { r: 255, g: 255, b: 136, a: 0 });
+		assert.strictEqual(parseCssColor('#ff800'), undefined);
+	});
+
+	test('parses rgb() and hsl() colors', () => {
+		assert.deepStrictEqual(parseCssColor('rgb(255, 128, 0)'), { r: 255, g: 128, b: 0, a: 1 });
+		assert.strictEqual(formatCssColor(parseCssColor('rgba(100%, 0%, 300, 50%)')!), 'rgba(255, 0, 255, 0.5)');
+		assert.deepStrictEqual(parseCssColor('rgb(0 0 0 / 0.25)'), { r: 0, g: 0, b: 0, a: 0.25 });
+		assert.strictEqual(formatHexColor(parseCssColor('hsl(120, 100%, 25%)')!), '#008000');
+		assert.strictEqual(formatHexColor(parseCssColor('hsla(-120deg 100% 50% / 1)')!), '#0000ff');
+	});
+
+	test('rejects what is not a color', () => {
+		for (const value of ['red', '', 'rgb(1, 2)', 'rgb(a, b, c)', 'hsl(1, 2, 3, 4, 5)', 'url(x)', '#ff0000; background: red']) {
+			assert.strictEqual(parseCssColor(value), undefined, value);
+		}
+	});
+
+	test('formats transparent colors as rgba()', () => {
+		assert.strictEqual(formatCssColor({ r: 255, g: 128, b: 0, a: 1 }), '#ff8000');
+		assert.strictEqual(formatCssColor({ r: 254.6, g: 0, b: 0, a: 0.333 }), 'rgba(255, 0, 0, 0.33)');
+	});
+
+	test('computes the contrast ratio and picks a readable text color', () => {
+		const white = { r: 255, g: 255, b: 255, a: 1 };
+		const black = { r: 0, g: 0, b: 0, a: 1 };
+		assert.strictEqual(getContrastRatio(white, black), 21);
+		assert.strictEqual(getContrastRatio(black, white), 21);
+		assert.strictEqual(getContrastRatio(white, white), 1);
+
+		assert.strictEqual(getContrastTextColor('#1e1e1e'), '#ffffff');
+		assert.strictEqual(getContrastTextColor('#ffd700'), '#000000');
+		assert.strictEqual(getContrastTextColor('hsl(210, 100%, 30%)'), '#ffffff');
+		assert.strictEqual(getContrastTextColor('not a color'), undefined);
+	});
+
+	test('finds the color with the highest priority in settings', () => {
+		const settings = {
+			'workbench.colorCustomizations': { 'statusBar.background': '#00ff00' },
+			'peacock.color': ' #ff0000 '
+		};
+		assert.strictEqual(findSettingsColor(settings, ['activityBar.background', 'peacock.color', 'statusBar.background']), '#ff0000');
+		assert.strictEqual(findSettingsColor(settings, ['statusBar.background']), '#00ff00');
+		assert.strictEqual(findSettingsColor(undefined, ['peacock.color']), undefined);
+	});
+});
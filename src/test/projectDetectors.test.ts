@@ -0,0 +1,73 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ProjectDetectorRegistry } from '../projectDetectors';
+
+suite('Project Detectors', () => {
+	let projectPath: string;
+
+	const writeFiles = (files: { [name: string]: string }) => {
+		for (const [name, content] of Object.entries(files)) {
+			fs.writeFileSync(path.join(projectPath, name), content);
+		}
+	};
+
+	setup(() => {
+		projectPath = fs.mkdtempSync(path.join(os.tmpdir(), 'project-dashboard-'));
+	});
+
+	teardown(() => {
+		fs.rmSync(projectPath, { recursive: true, force: true });
+	});
+
+	test('detects a TypeScript project with its frameworks and lockfile', async () => {
+		writeFiles({
+			'package.json': JSON.stringify({ dependencies: { react: '^18.0.0' }, devDependencies: { vite: '^5.0.0' } }),
+			'tsconfig.json': '{}',
+			'pnpm-lock.yaml': ''
+		});
+
+		const metadata = await new ProjectDetectorRegistry().detect(projectPath);
+
+		assert.deepStrictEqual(metadata, { languages: ['TypeScript'], frameworks: ['React', 'Vite'], packageManager: 'pnpm' });
+	});
+
+	test('prefers the declared package manager over the lockfile', async () => {
+		writeFiles({
+			'package.json': JSON.stringify({ packageManager: 'yarn@4.1.0', engines: { vscode: '^1.90.0' } }),
+			'package-lock.json': '{}'
+		});
+
+		const metadata = await new ProjectDetectorRegistry().detect(projectPath);
+
+		assert.deepStrictEqual(metadata, { languages: ['JavaScript'], frameworks: ['VS Code Extension'], packageManager: 'yarn' });
+	});
+
+	test('combines the results of several detectors, the first package manager wins', async () => {
+		writeFiles({
+			'Cargo.toml': '[package]\nname = "app"\n\n[dependencies]\ntauri = "2"\n',
+			'pyproject.toml': '[tool.poetry]\n[tool.poetry.dependencies]\nfastapi = "*"\n'
+		});
+
+		const metadata = await new ProjectDetectorRegistry().detect(projectPath);
+
+		assert.deepStrictEqual(metadata, { languages: ['Rust', 'Python'], frameworks: ['Tauri', 'FastAPI'], packageManager: 'cargo' });
+	});
+
+	test('runs registered detectors and ignores failing ones', async () => {
+		writeFiles({ 'main.zig': '' });
+		const registry = new ProjectDetectorRegistry();
+		registry.register({ id: 'broken', detect: () => { throw new Error('broken'); } });
+		const registration = registry.register({
+			id: 'zig',
+			detect: context => context.hasFile('main.zig') ? { languages: ['Zig'], packageManager: 'zig' } : undefined
+		});
+
+		assert.deepStrictEqual(await registry.detect(projectPath), { languages: ['Zig'], frameworks: [], packageManager: 'zig' });
+		assert.throws(() => registry.register({ id: 'zig', detect: () => undefined }));
+
+		registration.dispose();
+		assert.deepStrictEqual(await registry.detect(projectPath), { languages: [], frameworks: [] });
+	});
+});
@@ -0,0 +1,65 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { ConfigManager } from '../configManager';
+import { ConcurrencyLimiter } from '../projectScanner';
+import { createFakeContext } from './fakeContext';
+
+suite('Project Scanner', () => {
+	let baseFolderPath: string;
+
+	setup(() => {
+		baseFolderPath = fs.mkdtempSync(path.join(os.tmpdir(), 'project-dashboard-'));
+		fs.mkdirSync(path.join(baseFolderPath, 'work', 'app'), { recursive: true });
+	});
+
+	teardown(() => {
+		fs.rmSync(baseFolderPath, { recursive: true, force: true });
+	});
+
+	test('stops when the scan is cancelled', async () => {
+		const configManager = new ConfigManager(createFakeContext());
+		const cancellation = new vscode.CancellationTokenSource();
+		cancellation.cancel();
+
+		await assert.rejects(
+			configManager.getScanner().scanBaseFolder({ name: 'fixture', path: baseFolderPath }, { token: cancellation.token }),
+			vscode.CancellationError
+		);
+	});
+
+	test('never runs more tasks than the limit', async () => {
+		let active = 0;
+		let peak = 0;
+		const task = async (until: Promise<unknown>) => {
+			active++;
+			peak = Math.max(peak, active);
+			await until;
+			active--;
+		};
+
+		// A new task may arrive at any point while a finished task hands its slot to a waiting one
+		for (let delay = 0; delay < 8; delay++) {
+			const limiter = new ConcurrencyLimiter(1);
+			let open: () => void = () => undefined;
+			const gate = new Promise<void>(resolve => open = resolve);
+			const tick = () => new Promise(resolve => setTimeout(resolve, 1));
+
+			let late: Promise<unknown> = gate;
+			for (let index = 0; index < delay; index++) {
+				late = late.then(() => undefined);
+			}
+			const tasks = [
+				limiter.run(() => task(gate)),
+				limiter.run(() => task(tick())),
+				late.then(() => limiter.run(() => task(tick())))
+			];
+			open();
+			await Promise.all(tasks);
+		}
+
+		assert.strictEqual(peak, 1);
+	});
+});
@@ -0,0 +1,85 @@
+import * as assert from 'assert';
+import { ProjectInfo } from '../configManager';
+import { describeSortCriteria, sortGroupKeys, sortProjects } from '../projectSort';
+
+suite('Project Sort', () => {
+	const projects: ProjectInfo[] = [
+		{ name: 'web', id: 'work/web', color: '#0000ff', size: 300 },
+		{ name: 'api', id: 'work/api', color: '#ff0000', size: 100 },
+		{ name: 'docs', id: 'work/docs', size: 100 },
+		{ name: 'cli', id: 'work/cli', color: '#808080', size: 200 }
+	];
+	const usage = {
+		'work/web': { lastOpened: 30, openCount: 2 },
+		'work/api': { lastOpened: 10, openCount: 5 },
+		'work/cli': { lastOpened: 20, openCount: 5 }
+	};
+
+	const names = (sorted: ProjectInfo[]) => sorted.map(project => project.name);
+
+	test('later keys break ties and the name comes last', () => {
+		assert.deepStrictEqual(names(sortProjects(projects, [{ key: 'size' }], usage)), ['api', 'docs', 'cli', 'web']);
+		assert.deepStrictEqual(
+			names(sortProjects(projects, [{ key: 'openCount', descending: true }, { key: 'lastOpened', descending: true }], usage)),
+			['cli', 'api', 'web', 'docs']
+		);
+		assert.deepStrictEqual(names(sortProjects(projects, [{ key: 'name', descending: true }], usage)), ['web', 'docs', 'cli', 'api']);
+	});
+
+	test('projects without a value come last in both directions', () => {
+		assert.deepStrictEqual(names(sortProjects(projects, [{ key: 'lastOpened' }], usage)), ['api', 'cli', 'web', 'docs']);
+		assert.deepStrictEqual(names(sortProjects(projects, [{ key: 'lastOpened', descending: true }], usage)), ['web', 'cli', 'api', 'docs']);
+	});
+
+	test('colors are ordered by hue with grays after them', () => {
+		assert.deepStrictEqual(names(sortProjects(projects, [{ key: 'color' }], usage)), ['api', 'web', 'cli', 'docs']);
+	});
+
+	test('the custom order is followed by the other projects by name', () => {
+		assert.deepStrictEqual(
+			names(sortProjects(projects, [{ key: 'manual' }], usage, ['work/web', 'work/cli'])),
+			['web', 'cli', 'api', 'docs']
+		);
+	});
+
+	test('unlisted projects come after the custom order by name, whatever the direction', () => {
+		// Ids of removed projects stay in the custom order without taking a place
+		const customOrder = ['work/gone', 'work/docs', 'work/web'];
+
+		assert.deepStrictEqual(names(sortProjects(projects, [{ key: 'manual' }], usage, customOrder)), ['docs', 'web', 'api', 'cli']);
+		assert.deepStrictEqual(
+			names(sortProjects(projects, [{ key: 'manual', descending: true }], usage, customOrder)),
+			['web', 'docs', 'api', 'cli']
+		);
+		assert.deepStrictEqual(names(sortProjects(projects, [{ key: 'manual' }], usage)), ['api', 'cli', 'docs', 'web']);
+	});
+
+	test('does not change the given list', () => {
+		const copy = projects.slice();
+		sortProjects(projects, [{ key: 'size', descending: true }], usage);
+		assert.deepStrictEqual(projects, copy);
+	});
+
+	test('sorts group keys by the group name', () => {
+		const groupKeys = ['work/clients/beta', 'home/alpha', 'work/gamma'];
+
+		assert.deepStrictEqual(sortGroupKeys(groupKeys), ['home/alpha', 'work/clients/beta', 'work/gamma']);
+		assert.deepStrictEqual(sortGroupKeys(groupKeys, 'desc'), ['work/gamma', 'work/clients/beta', 'home/alpha']);
+		assert.deepStrictEqual(sortGroupKeys(groupKeys, 'manual', ['work/gamma']), ['work/gamma', 'home/alpha', 'work/clients/beta']);
+	});
+
+	test('unlisted groups come after the custom order by name', () => {
+		const groupKeys = ['work/delta', 'work/clients/beta', 'home/alpha', 'work/gamma'];
+
+		assert.deepStrictEqual(
+			sortGroupKeys(groupKeys, 'manual', ['work/gamma', 'work/removed', 'work/clients/beta']),
+			['work/gamma', 'work/clients/beta', 'home/alpha', 'work/delta']
+		);
+		assert.deepStrictEqual(sortGroupKeys(groupKeys, 'manual'), ['home/alpha', 'work/clients/beta', 'work/delta', 'work/gamma']);
+	});
+
+	test('describes the sort criteria', () => {
+		assert.strictEqual(describeSortCriteria([{ key: 'color' }, { key: 'name' }]), 'Color, then Name (A-Z)');
+		assert.strictEqual(describeSortCriteria([{ key: 'branch', descending: true }]), 'Branch (descending)');
+	});
+});
@@ -0,0 +1,81 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { BaseFolder, ConfigManager } from '../configManager';
+import { ProjectWatcher, ProjectsChangeEvent } from '../projectWatcher';
+import { createFakeContext } from './fakeContext';
+
+suite('Project Watcher', () => {
+	let baseFolder: BaseFolder;
+	let configManager: ConfigManager;
+	let watcher: ProjectWatcher | undefined;
+
+	const nextEvent = (projectWatcher: ProjectWatcher) => new Promise<ProjectsChangeEvent>(resolve => {
+		const listener = projectWatcher.onDidChangeProjects(event => {
+			listener.dispose();
+			resolve(event);
+		});
+	});
+
+	const queueChanges = (projectWatcher: ProjectWatcher, ...relativePaths: string[]) => {
+		for (const relativePath of relativePaths) {
+			projectWatcher.queueChange(baseFolder, vscode.Uri.file(path.join(baseFolder.path, ...relativePath.split('/'))));
+		}
+	};
+
+	setup(async () => {
+		const basePath = fs.mkdtempSync(path.join(os.tmpdir(), 'project-dashboard-'));
+		for (const folder of ['work/clients/acme/src', 'work/clients/beta', 'work/tools/cli']) {
+			fs.mkdirSync(path.join(basePath, folder), { recursive: true });
+		}
+		fs.writeFileSync(path.join(basePath, '.dashboardignore'), 'build\n');
+
+		baseFolder = { name: 'fixture', path: basePath, layout: { mode: 'groups', maxDepth: 3 } };
+		configManager = new ConfigManager(createFakeContext());
+		await configManager.saveConfig({ baseFolders: [baseFolder] });
+		await configManager.scanProjects();
+	});
+
+	teardown(() => {
+		watcher?.dispose();
+		watcher = undefined;
+		fs.rmSync(baseFolder.path, { recursive: true, force: true });
+	});
+
+	test('rescans the nearest group once for a burst of changes', async () => {
+		fs.mkdirSync(path.join(baseFolder.path, 'work', 'clients', 'gamma'));
+		watcher = new ProjectWatcher(configManager);
+
+		const clientsEvent = nextEvent(watcher);
+		queueChanges(watcher, 'work/clients/gamma', 'work/clients/gamma/README.md', 'work/clients/gamma');
+		assert.deepStrictEqual(await clientsEvent, { baseFolderName: 'fixture', groupKey: 'fixture/work/clients' });
+		assert.deepStrictEqual(
+			configManager.getConfig().projectsData?.['fixture/work/clients'].map(project => project.name),
+			['acme', 'beta', 'gamma']
+		);
+
+		// A second rescan of the burst would be announced before the next change
+		const toolsEvent = nextEvent(watcher);
+		queueChanges(watcher, 'work/tools/new');
+		assert.deepStrictEqual(await toolsEvent, { baseFolderName: 'fixture', groupKey: 'fixture/work/tools' });
+	});
+
+	test('rescans nested groups together with their ancestor', async () => {
+		watcher = new ProjectWatcher(configManager);
+
+		const event = nextEvent(watcher);
+		queueChanges(watcher, 'work/clients/delta', 'work/archive');
+		assert.deepStrictEqual(await event, { baseFolderName: 'fixture', groupKey: 'fixture/work' });
+	});
+
+	test('drops changes in excluded folders and inside projects', async () => {
+		watcher = new ProjectWatcher(configManager);
+
+		// Rescans caused by the dropped changes would be announced first
+		const event = nextEvent(watcher);
+		queueChanges(watcher, 'work/build', 'work/build/app.js', 'work/clients/acme/src/index.ts', 'work/clients/acme/package.json', 'work/tools/new');
+		assert.deepStrictEqual(await event, { baseFolderName: 'fixture', groupKey: 'fixture/work/tools' });
+	});
+});
@@ -0,0 +1,42 @@
+import * as assert from 'assert';
+import { fuzzyMatch, parseQuery } from '../searchQuery';
+
+suite('Search Query', () => {
+	const qualifiers = ['group', 'tag', 'lang'];
+
+	test('splits words, phrases and qualifiers', () => {
+		assert.deepStrictEqual(parseQuery('Api "web app" tag:Backend lang:"c sharp"', qualifiers), [
+			{ negated: false, qualifier: undefined, value: 'api', isPhrase: false },
+			{ negated: false, qualifier: undefined, value: 'web app', isPhrase: true },
+			{ negated: false, qualifier: 'tag', value: 'backend', isPhrase: false },
+			{ negated: false, qualifier: 'lang', value: 'c sharp', isPhrase: true }
+		]);
+	});
+
+	test('negates terms with a leading "-"', () => {
+		assert.deepStrictEqual(parseQuery('-legacy -tag:archived', qualifiers), [
+			{ negated: true, qualifier: undefined, value: 'legacy', isPhrase: false },
+			{ negated: true, qualifier: 'tag', value: 'archived', isPhrase: false }
+		]);
+	});
+
+	test('searches for unknown qualifiers as text and skips incomplete terms', () => {
+		assert.deepStrictEqual(parseQuery('http://localhost', qualifiers), [
+			{ negated: false, qualifier: undefined, value: 'http://localhost', isPhrase: false }
+		]);
+		assert.deepStrictEqual(parseQuery('- tag: ""', qualifiers), []);
+		assert.deepStrictEqual(parseQuery('"unterminated phrase', qualifiers), [
+			{ negated: false, qualifier: undefined, value: 'unterminated phrase', isPhrase: true }
+		]);
+	});
+
+	test('fuzzy matches prefer substrings and word starts', () => {
+		assert.deepStrictEqual(fuzzyMatch('Dashboard', 'dash'), { score: 150, indices: [0, 1, 2, 3] });
+		assert.deepStrictEqual(fuzzyMatch('project-dashboard', 'pd'), { score: 6, indices: [0, 8] });
+		assert.strictEqual(fuzzyMatch('project-dashboard', 'xyz'), null);
+
+		const wordStart = fuzzyMatch('my-api', 'api');
+		const inside = fuzzyMatch('rapid', 'api');
+		assert.ok(wordStart && inside && wordStart.score > inside.score);
+	});
+});